@@ -19,15 +19,97 @@ import type {
   PlayerIndex,
   EventIndex,
   DateIndex,
+  SetupPositionIndex,
+  TimeClassIndex,
+  MergeableIndexes,
   DeduplicationIndex,
+  QuarantineEntry,
   SourceTracking,
 } from "./types.js";
+import {
+  createPlayerNameResolver,
+  loadPlayerAliases,
+  canonicalizePlayers,
+  savePlayerNameReview,
+  PLAYER_REVIEW_PATH,
+} from "./playerNames.js";
+import { parseSanMoves } from "./movetext.js";
+import { classifyTimeClass } from "./filterGame.js";
+import {
+  buildDataQualityReport,
+  saveDataQualityReport,
+  verifyResult,
+  DATA_QUALITY_REPORT_PATH,
+} from "./dataQuality.js";
+import {
+  gameToPgn,
+  quarantineId,
+  replaceQuarantineStage,
+  QUARANTINE_PATH,
+} from "./quarantine.js";
+import {
+  createEventNameResolver,
+  loadEventAliases,
+  canonicalizeEvents,
+} from "./eventNames.js";
+import {
+  diffGames,
+  indexBuildState,
+  insertSortedId,
+  loadIndexBuildState,
+  mergeGameToPlayers,
+  mergeIdListIndex,
+  mergeOpeningByNameIndex,
+  saveIndexBuildState,
+  INDEX_BUILD_STATE_PATH,
+  LEGACY_INDEX_BUILD_STATE_FILE,
+} from "./indexMerge.js";
+import type { GameDiff } from "./indexMerge.js";
+import {
+  buildPositionIndex,
+  loadPositionIndex,
+  mergePositionIndex,
+  replayGames,
+  savePositionIndex,
+  DEFAULT_POSITION_INDEX_PLIES,
+  POSITION_INDEX_MANIFEST,
+} from "./positionIndex.js";
+import {
+  buildExplorerMoves,
+  buildExplorerTree,
+  loadExplorerCache,
+  mergeExplorerMoves,
+  saveExplorerCache,
+  saveExplorerTree,
+  DEFAULT_EXPLORER_MIN_GAMES,
+  DEFAULT_EXPLORER_TOP_GAMES,
+  EXPLORER_CACHE_PATH,
+  EXPLORER_MANIFEST,
+} from "./explorer.js";
+import { shardBytes } from "./shards.js";
 
 // Netlify Blobs limit: 5 MB per blob
 // ~1 KB per game → 4000 games = ~4 MB (with headroom for metadata)
 const CHUNK_SIZE = 4000; // Games per chunk (keeps under 5 MB for Netlify Blobs)
 const INPUT_FILE = "./data/pgn-downloads/processed-games.json";
 const OUTPUT_DIR = "./data/indexes";
+// Rebuild every index from scratch instead of merging changed games
+const FULL_REBUILD =
+  process.argv.includes("--full") || process.env.FULL_REBUILD === "true";
+// How deep into each game the position index and explorer go
+const POSITION_INDEX_PLIES =
+  parseInt(process.env.POSITION_INDEX_PLIES ?? "", 10) ||
+  DEFAULT_POSITION_INDEX_PLIES;
+// Explorer positions need this many games; each lists this many top games
+const EXPLORER_MIN_GAMES =
+  parseInt(process.env.EXPLORER_MIN_GAMES ?? "", 10) ||
+  DEFAULT_EXPLORER_MIN_GAMES;
+const EXPLORER_TOP_GAMES =
+  parseInt(process.env.EXPLORER_TOP_GAMES ?? "", 10) ||
+  DEFAULT_EXPLORER_TOP_GAMES;
+// Stamped on each game enrichment was attempted for; bump it when
+// enrichment changes so every game is enriched again once
+const ENRICH_VERSION = 1;
 
 interface ProcessedData {
   games: GameMetadata[];
@@ -94,11 +176,37 @@ function buildGameChunks(games: GameMetadata[]): {
   return { chunks, masterIndex };
 }
 
+/**
+ * Play SAN moves from the current position; throws on the first illegal move
+ */
+function replayMoves(chess: ChessPGN, moves: string[]): void {
+  for (const move of moves) {
+    const result = chess.move(move);
+    if (!result) {
+      throw new Error(`Invalid move: ${move}`);
+    }
+  }
+}
+
+/**
+ * The enrichment version a game has had. Games fully enriched before the
+ * stamp existed count as version 1.
+ */
+function gameEnrichVersion(game: GameMetadata): number {
+  return game.enrichVersion ?? (game.ecoJsonFen && game.termination ? 1 : 0);
+}
+
+/**
+ * Match every unenriched game against eco.json and verify its result, in place.
+ * Returns the hashes of games whose enrichment or verification changed, and
+ * quarantine entries for games whose moves failed to replay.
+ */
 async function enrichGamesWithEcoJson(
   games: GameMetadata[],
   openings: any,
   positionBook: any,
-): Promise<void> {
+  runId = `build-indexes@${new Date().toISOString()}`,
+): Promise<{ updated: Set<string>; failed: QuarantineEntry[] }> {
   console.log("\n🎯 Enriching games with eco.json opening matches...");
 
   // Precompute reverse map: Opening object → FEN key (O(N) once, avoids O(N×G) per-game scan)
@@ -118,6 +226,11 @@ async function enrichGamesWithEcoJson(
   let matched = 0;
   let unmatched = 0;
   let skipped = 0;
+  let setups = 0;
+  let verifiedOnly = 0;
+  let mismatches = 0;
+  const updated = new Set<string>();
+  const failed: QuarantineEntry[] = [];
   const progressInterval = 1000;
 
   for (let i = 0; i < games.length; i++) {
@@ -127,8 +240,9 @@ async function enrichGamesWithEcoJson(
       process.stdout.write(`\r  Processing: ${i + 1}/${games.length} games...`);
     }
 
-    // OPTIMIZATION: Skip games that are already enriched
-    if (game.ecoJsonFen) {
+    // OPTIMIZATION: Skip games enrichment was already attempted for -
+    // set-up and unmatched games included, so they aren't replayed again
+    if (gameEnrichVersion(game) >= ENRICH_VERSION) {
       skipped++;
       continue;
     }
@@ -146,45 +260,71 @@ async function enrichGamesWithEcoJson(
       );
     }
 
-    try {
-      // OPTIMIZATION: Parse moves manually instead of using loadPgn()
-      // game.moves should contain just moves, but handle legacy data with headers too
-
-      let movesText = game.moves;
-
-      // Strip headers if present (legacy data compatibility)
-      if (movesText.includes("[")) {
-        movesText = movesText.replace(/^\[.*?\]\s*/gm, "").trim();
-      }
+    // Games whose moves fail to replay are not stamped: they stay in the
+    // enrich quarantine and are retried every build
+    const attempted = () => {
+      game.enrichVersion = ENRICH_VERSION;
+      updated.add(game.hash);
+    };
 
-      // Extract clean SAN moves
-      const cleanMoves = movesText
-        .replace(/\d+\.\s*/g, "") // Remove move numbers: "1." "2." etc.
-        .replace(/1-0|0-1|1\/2-1\/2|\*/g, "") // Remove result tokens
-        .replace(/\{[^}]*\}/g, "") // Remove comments
-        .replace(/\([^)]*\)/g, "") // Remove variations
-        .trim()
-        .split(/\s+/)
-        .filter((m) => m.length > 0 && m !== "");
+    try {
+      // OPTIMIZATION: Parse moves manually instead of using loadPgn().
+      // game.moves should contain just moves; stray header lines in legacy
+      // data are skipped by the tokenizer.
+      // The raw movetext is kept for its closing comments ("White resigns").
+      const rawMoves = game.moves;
+      const cleanMoves = parseSanMoves(rawMoves);
 
       if (cleanMoves.length === 0) {
         unmatched++;
+        attempted();
         continue;
       }
 
       // Reset shared instance then execute moves to build game state for lookupByMoves
-      chess.reset();
-      for (const move of cleanMoves) {
-        const result = chess.move(move);
-        if (!result) {
-          throw new Error(`Invalid move: ${move}`);
-        }
+      if (game.startFen) {
+        chess.load(game.startFen);
+      } else {
+        chess.reset();
       }
+      replayMoves(chess, cleanMoves);
 
       // Store ply count and clean SAN moves
       game.ply = cleanMoves.length;
       game.moves = cleanMoves.join(" ");
 
+      // Check the Result header against the final position
+      const verdict = verifyResult(
+        chess,
+        game.result,
+        rawMoves,
+        game.termination,
+      );
+      if (
+        verdict.termination !== game.termination ||
+        verdict.issue !== game.resultIssue
+      ) {
+        game.termination = verdict.termination;
+        if (verdict.issue) game.resultIssue = verdict.issue;
+        else delete game.resultIssue;
+        updated.add(game.hash);
+      }
+      if (verdict.issue) mismatches++;
+
+      // Set-up positions have no opening to classify
+      if (game.startFen) {
+        setups++;
+        attempted();
+        continue;
+      }
+
+      // Enriched before result verification existed
+      if (game.ecoJsonFen) {
+        verifiedOnly++;
+        attempted();
+        continue;
+      }
+
       const result = lookupByMoves(chess, openings, { positionBook });
 
       if (result.opening) {
@@ -197,8 +337,22 @@ async function enrichGamesWithEcoJson(
       } else {
         unmatched++;
       }
+      attempted();
     } catch (error) {
       unmatched++;
+      const pgn = gameToPgn(game);
+      failed.push({
+        id: quarantineId("enrich", pgn),
+        stage: "enrich",
+        reason: error instanceof Error ? error.message : String(error),
+        runId,
+        source: game.source,
+        sourceFile: game.sourceFile,
+        idx: game.idx,
+        hash: game.hash,
+        pgn,
+        quarantinedAt: new Date().toISOString(),
+      });
     }
   }
 
@@ -213,21 +367,54 @@ async function enrichGamesWithEcoJson(
     ).toFixed(1)}% of unenriched)`,
   );
   console.log(`  ⚠️  Unmatched: ${unmatched} games`);
+  console.log(`  ♟️  Set-up positions (not classified): ${setups} games`);
+  console.log(
+    `  🔎 Result verified for ${verifiedOnly} previously enriched games`,
+  );
+  console.log(`  ❗ Result contradicts final position: ${mismatches} games`);
+  console.log(`  🧪 Moves failed to replay: ${failed.length} games`);
+  return { updated, failed };
 }
 
-function buildOpeningByFenIndex(games: GameMetadata[]): OpeningByFenIndex {
-  console.log("\n📖 Building Opening by FEN index (eco.json positions)...");
-
-  const index: OpeningByFenIndex = {};
+// The key each game files under in the key → game ids indexes (undefined:
+// not indexed). Shared by full builds and incremental merges.
+const indexKeys = {
+  openingByFen: (game: GameMetadata) => game.ecoJsonFen,
+  // A set-up game's ECO header doesn't describe an opening it played
+  openingByEco: (game: GameMetadata) =>
+    game.eco && !game.startFen ? game.eco : undefined,
+  date: (game: GameMetadata) => {
+    const year = game.date?.split(".")[0];
+    return year && year !== "????" ? year : undefined;
+  },
+  setupPosition: (game: GameMetadata) => game.startFen,
+  timeClass: (game: GameMetadata) => game.timeClass ?? "unknown",
+};
 
+function buildIdListIndex(
+  games: GameMetadata[],
+  keyOf: (game: GameMetadata) => string | undefined,
+): { [key: string]: number[] } {
+  const index: { [key: string]: number[] } = {};
   for (const game of games) {
-    if (game.ecoJsonFen) {
-      if (!index[game.ecoJsonFen]) {
-        index[game.ecoJsonFen] = [];
-      }
-      index[game.ecoJsonFen].push(game.idx);
+    const key = keyOf(game);
+    if (key === undefined) continue;
+    if (!index[key]) {
+      index[key] = [];
     }
+    // Games sharing an idx are listed once, as a merge lists them
+    insertSortedId(index[key], game.idx);
   }
+  return index;
+}
+
+function buildOpeningByFenIndex(games: GameMetadata[]): OpeningByFenIndex {
+  console.log("\n📖 Building Opening by FEN index (eco.json positions)...");
+
+  const index: OpeningByFenIndex = buildIdListIndex(
+    games,
+    indexKeys.openingByFen,
+  );
 
   console.log(
     `  ✅ Indexed ${Object.keys(index).length} unique eco.json positions`,
@@ -254,7 +441,7 @@ function buildOpeningByNameIndex(games: GameMetadata[]): OpeningByNameIndex {
           gameIds: [],
         };
       }
-      index[openingName].gameIds.push(game.idx);
+      insertSortedId(index[openingName].gameIds, game.idx);
     }
   }
 
@@ -267,93 +454,125 @@ function buildOpeningByNameIndex(games: GameMetadata[]): OpeningByNameIndex {
 function buildOpeningByEcoIndex(games: GameMetadata[]): OpeningByEcoIndex {
   console.log("\n🔖 Building Opening by ECO index...");
 
-  const index: OpeningByEcoIndex = {};
-
-  for (const game of games) {
-    if (game.eco) {
-      if (!index[game.eco]) {
-        index[game.eco] = [];
-      }
-      index[game.eco].push(game.idx);
-    }
-  }
+  const index: OpeningByEcoIndex = buildIdListIndex(
+    games,
+    indexKeys.openingByEco,
+  );
 
   console.log(`  ✅ Indexed ${Object.keys(index).length} unique ECO codes`);
   return index;
 }
 
-function buildPlayerIndex(games: GameMetadata[]): PlayerIndex {
+function buildPlayerIndex(
+  games: GameMetadata[],
+  canonicalNames: Map<string, string>,
+): PlayerIndex {
   console.log("\n👤 Building Player index...");
 
   const index: PlayerIndex = {};
 
-  for (const game of games) {
-    // Index white player
-    if (game.white) {
-      const whiteName = game.white.toLowerCase().trim();
-      if (!index[whiteName]) {
-        index[whiteName] = { asWhite: [], asBlack: [], totalGames: 0 };
-      }
-      index[whiteName].asWhite.push(game.idx);
-      index[whiteName].totalGames++;
+  const addGame = (raw: string, color: "asWhite" | "asBlack", idx: number) => {
+    const name = canonicalNames.get(raw);
+    if (!name) return;
+    const key = name.toLowerCase();
+    if (!index[key]) {
+      index[key] = {
+        name,
+        variants: [],
+        asWhite: [],
+        asBlack: [],
+        totalGames: 0,
+      };
     }
+    const entry = index[key];
+    if (!entry.variants.includes(raw)) entry.variants.push(raw);
+    entry[color].push(idx);
+    entry.totalGames++;
+  };
 
-    // Index black player
-    if (game.black) {
-      const blackName = game.black.toLowerCase().trim();
-      if (!index[blackName]) {
-        index[blackName] = { asWhite: [], asBlack: [], totalGames: 0 };
-      }
-      index[blackName].asBlack.push(game.idx);
-      index[blackName].totalGames++;
-    }
+  for (const game of games) {
+    // Raw names stay on the game; the index is keyed by canonical name
+    if (game.white) addGame(game.white, "asWhite", game.idx);
+    if (game.black) addGame(game.black, "asBlack", game.idx);
   }
 
   console.log(`  ✅ Indexed ${Object.keys(index).length} unique players`);
   return index;
 }
 
-function buildEventIndex(games: GameMetadata[]): EventIndex {
+function buildEventIndex(
+  games: GameMetadata[],
+  canonicalPlayers: Map<string, string>,
+): EventIndex {
   console.log("\n🏆 Building Event index...");
 
-  const index: EventIndex = {};
-
-  for (const game of games) {
-    if (game.event) {
-      const normalized = game.event.toLowerCase().trim();
-
-      if (!index[normalized]) {
-        index[normalized] = [];
-      }
-      index[normalized].push(game.idx);
-    }
-  }
+  const resolver = createEventNameResolver(loadEventAliases());
+  const index = canonicalizeEvents(games, resolver, canonicalPlayers);
 
-  console.log(`  ✅ Indexed ${Object.keys(index).length} unique events`);
+  const spellings = Object.values(index).reduce(
+    (sum, event) => sum + event.variants.length,
+    0,
+  );
+  console.log(
+    `  ✅ Indexed ${Object.keys(index).length} events (${spellings} Event header spellings)`,
+  );
   return index;
 }
 
 function buildDateIndex(games: GameMetadata[]): DateIndex {
   console.log("\n📅 Building Date index...");
 
-  const index: DateIndex = {};
-
-  for (const game of games) {
-    if (game.date) {
-      const year = game.date.split(".")[0];
-      if (year && year !== "????") {
-        if (!index[year]) {
-          index[year] = [];
-        }
-        index[year].push(game.idx);
-      }
-    }
-  }
+  const index: DateIndex = buildIdListIndex(games, indexKeys.date);
 
   console.log(`  ✅ Indexed ${Object.keys(index).length} unique years`);
   return index;
 }
 
+function buildSetupPositionIndex(games: GameMetadata[]): SetupPositionIndex {
+  console.log("\n♟️  Building Set-up Position index...");
+
+  const index: SetupPositionIndex = buildIdListIndex(
+    games,
+    indexKeys.setupPosition,
+  );
+
+  const total = Object.values(index).reduce((sum, ids) => sum + ids.length, 0);
+  console.log(
+    `  ✅ Indexed ${total} set-up games (${Object.keys(index).length} starting positions)`,
+  );
+  return index;
+}
+
+function buildTimeClassIndex(games: GameMetadata[]): TimeClassIndex {
+  console.log("\n⏱️  Building Time Class index...");
+
+  const index: TimeClassIndex = buildIdListIndex(games, indexKeys.timeClass);
+
+  console.log(
+    `  ✅ ${Object.entries(index)
+      .map(([timeClass, ids]) => `${timeClass} ${ids.length}`)
+      .join(", ")}`,
+  );
+  return index;
+}
+
+/**
+ * Games imported before timeClass existed have no TimeControl header left,
+ * so they are classified from the event name. Returns their hashes.
+ */
+function backfillTimeClasses(games: GameMetadata[]): Set<string> {
+  const backfilled = new Set<string>();
+  for (const game of games) {
+    if (game.timeClass) continue;
+    game.timeClass = classifyTimeClass(undefined, game.event);
+    backfilled.add(game.hash);
+  }
+  if (backfilled.size > 0) {
+    console.log(`⏱️  Time class backfilled for ${backfilled.size} games\n`);
+  }
+  return backfilled;
+}
+
 function buildGameToPlayersIndex(games: GameMetadata[]): [string, string][] {
   console.log("\n🎮 Building Game-to-Players index...");
 
@@ -388,6 +607,72 @@ function buildGameToChunkIndex(
   return index;
 }
 
+// Output file for each mergeable index
+const MERGEABLE_INDEX_FILES: Record<keyof MergeableIndexes, string> = {
+  openingByFen: "opening-by-fen.json",
+  openingByName: "opening-by-name.json",
+  openingByEco: "opening-by-eco.json",
+  date: "date-index.json",
+  setupPositions: "setup-position-index.json",
+  timeClasses: "time-class-index.json",
+  gameToPlayers: "game-to-players.json",
+};
+
+/**
+ * Build the mergeable indexes from scratch. Games are taken in idx order so
+ * every id list comes out ascending, the order merges preserve.
+ */
+function buildMergeableIndexes(games: GameMetadata[]): MergeableIndexes {
+  const byIdx = [...games].sort((a, b) => a.idx - b.idx);
+  return {
+    openingByFen: buildOpeningByFenIndex(byIdx),
+    openingByName: buildOpeningByNameIndex(byIdx),
+    openingByEco: buildOpeningByEcoIndex(byIdx),
+    date: buildDateIndex(byIdx),
+    setupPositions: buildSetupPositionIndex(byIdx),
+    timeClasses: buildTimeClassIndex(byIdx),
+    gameToPlayers: buildGameToPlayersIndex(byIdx),
+  };
+}
+
+/**
+ * Merge new and changed games into the previous build's indexes (in place)
+ */
+function mergeIndexes(
+  indexes: MergeableIndexes,
+  diff: GameDiff,
+): MergeableIndexes {
+  mergeIdListIndex(indexes.openingByFen, indexKeys.openingByFen, diff);
+  mergeOpeningByNameIndex(indexes.openingByName, diff);
+  mergeIdListIndex(indexes.openingByEco, indexKeys.openingByEco, diff);
+  mergeIdListIndex(indexes.date, indexKeys.date, diff);
+  mergeIdListIndex(indexes.setupPositions, indexKeys.setupPosition, diff);
+  mergeIdListIndex(
+    indexes.timeClasses as { [key: string]: number[] },
+    indexKeys.timeClass,
+    diff,
+  );
+  return {
+    ...indexes,
+    gameToPlayers: mergeGameToPlayers(indexes.gameToPlayers, diff),
+  };
+}
+
+/**
+ * The previous build's mergeable indexes, or null if any file is missing
+ */
+function loadMergeableIndexes(indexesDir: string): MergeableIndexes | null {
+  const loaded: Partial<MergeableIndexes> = {};
+  for (const [key, file] of Object.entries(MERGEABLE_INDEX_FILES)) {
+    const indexPath = path.join(indexesDir, file);
+    if (!fs.existsSync(indexPath)) return null;
+    loaded[key as keyof MergeableIndexes] = JSON.parse(
+      fs.readFileSync(indexPath, "utf-8"),
+    );
+  }
+  return loaded as MergeableIndexes;
+}
+
 async function buildIndexes(): Promise<void> {
   console.log("🔨 Phase 1: Building search indexes\n");
 
@@ -450,22 +735,25 @@ async function buildIndexes(): Promise<void> {
   const positionBook = getPositionBook(openings);
   console.log(`  ✅ Loaded ${Object.keys(openings).length} openings\n`);
 
-  // Track which game hashes get newly enriched so we know which chunks to rewrite
-  const enrichedHashes = new Set<string>();
-  const originallyEnriched = new Set(
-    allGames.filter((g) => g.ecoJsonFen && g.hash).map((g) => g.hash),
-  );
-
-  // Enrich all games in-place
-  await enrichGamesWithEcoJson(allGames, openings, positionBook);
-
-  // Find newly enriched games
-  for (const g of allGames) {
-    if (g.ecoJsonFen && g.hash && !originallyEnriched.has(g.hash)) {
-      enrichedHashes.add(g.hash);
-    }
+  const changedHashes = backfillTimeClasses(allGames);
+
+  // Enrich all games in-place; the returned hashes tell which chunks to
+  // rewrite. Games whose moves fail to replay replace the previous build's
+  // enrich-stage quarantine entries.
+  const { updated: enrichedHashes, failed: enrichFailures } =
+    await enrichGamesWithEcoJson(allGames, openings, positionBook);
+  for (const hash of enrichedHashes) changedHashes.add(hash);
+  replaceQuarantineStage("enrich", enrichFailures);
+  if (enrichFailures.length > 0) {
+    console.log(`  🧪 Quarantined in ${QUARANTINE_PATH}`);
   }
 
+  const quality = buildDataQualityReport(allGames);
+  saveDataQualityReport(quality);
+  console.log(
+    `  📝 Data-quality report: ${DATA_QUALITY_REPORT_PATH} (${quality.mismatches.length} result mismatches)`,
+  );
+
   // Save chunks — only rewrite a chunk if it contains newly enriched games
   console.log("\n💾 Saving chunks...");
   let totalChunks = 0;
@@ -473,7 +761,7 @@ async function buildIndexes(): Promise<void> {
     totalChunks++;
     const chunkPath = path.join(OUTPUT_DIR, `chunk-${chunkId}.json`);
     const hasNewEnrichment = games.some(
-      (g) => g.hash && enrichedHashes.has(g.hash),
+      (g) => g.hash && changedHashes.has(g.hash),
     );
 
     if (!hasNewEnrichment && fs.existsSync(chunkPath)) {
@@ -506,36 +794,141 @@ async function buildIndexes(): Promise<void> {
   fs.writeFileSync(masterPath, JSON.stringify(masterIndex, null, 2));
   console.log(`  ✅ master-index.json`);
 
-  // Build search indexes
-  const openingByFen = buildOpeningByFenIndex(allGames);
-  const openingByName = buildOpeningByNameIndex(allGames);
-  const openingByEco = buildOpeningByEcoIndex(allGames);
-  const playerIndex = buildPlayerIndex(allGames);
-  const eventIndex = buildEventIndex(allGames);
-  const dateIndex = buildDateIndex(allGames);
-  const gameToPlayers = buildGameToPlayersIndex(allGames);
+  // Resolve player name variants before indexing
+  console.log("\n🔤 Canonicalizing player names...");
+  const playerNames = createPlayerNameResolver(loadPlayerAliases());
+  const players = canonicalizePlayers(allGames, playerNames);
+  savePlayerNameReview(players.review);
+  console.log(
+    `  ✅ ${players.review.rawNames} spellings → ${players.review.players} players`,
+  );
+  console.log(
+    `  ⚠️  Review ${PLAYER_REVIEW_PATH}: ${players.review.ambiguous.length} ambiguous, ${players.review.similar.length} similar`,
+  );
+
+  // Build search indexes. Indexes keyed only by each game's own fields are
+  // merged from the previous build unless a full rebuild is requested or
+  // that build left no state to diff against.
+  const previousState = FULL_REBUILD ? null : loadIndexBuildState();
+  const diff = previousState ? diffGames(allGames, previousState) : null;
+  const previousIndexes = diff ? loadMergeableIndexes(OUTPUT_DIR) : null;
+  let searchIndexes: MergeableIndexes;
+  if (diff && previousIndexes) {
+    console.log(
+      `\n🔁 Incremental: ${diff.newGames} new, ${diff.changedGames} changed, ${diff.removedGames} removed`,
+    );
+    searchIndexes = mergeIndexes(previousIndexes, diff);
+  } else {
+    console.log(
+      FULL_REBUILD
+        ? "\n🧱 Full rebuild requested"
+        : previousState
+          ? "\n🧱 Full rebuild: an index file is missing"
+          : `\n🧱 Full rebuild: no current ${INDEX_BUILD_STATE_PATH} from a previous build`,
+    );
+    searchIndexes = buildMergeableIndexes(allGames);
+  }
+  const incremental = previousIndexes !== null;
+
+  // Replaying every game is the slowest step, so the position index and
+  // the explorer's move cache are merged on the same diff whenever they
+  // match the requested depth. Each game is replayed once for both.
+  const previousPositions =
+    diff && incremental
+      ? loadPositionIndex(OUTPUT_DIR, POSITION_INDEX_PLIES)
+      : null;
+  const previousMoves =
+    diff && incremental ? loadExplorerCache(POSITION_INDEX_PLIES) : null;
+  if (incremental && !previousPositions) {
+    console.log(
+      `\n🧱 Position index: no shards at ${POSITION_INDEX_PLIES} plies, rebuilding`,
+    );
+  }
+  if (incremental && !previousMoves) {
+    console.log(
+      `\n🧱 Explorer: no move cache at ${POSITION_INDEX_PLIES} plies, rebuilding`,
+    );
+  }
+  const replays = replayGames(
+    diff && previousPositions && previousMoves ? diff.added : allGames,
+    POSITION_INDEX_PLIES,
+  );
+  const positionIndex =
+    diff && previousPositions
+      ? mergePositionIndex(previousPositions, diff, replays)
+      : buildPositionIndex(allGames, replays);
+  const explorerMoves =
+    diff && previousMoves
+      ? mergeExplorerMoves(previousMoves, diff, replays)
+      : buildExplorerMoves(allGames, replays);
+  saveExplorerCache(explorerMoves, POSITION_INDEX_PLIES);
+  console.log(`  💾 Explorer move cache: ${EXPLORER_CACHE_PATH}`);
+  const explorerTree = buildExplorerTree(explorerMoves, allGames, {
+    minGames: EXPLORER_MIN_GAMES,
+    topGames: EXPLORER_TOP_GAMES,
+  });
+
+  const playerIndex = buildPlayerIndex(allGames, players.canonicalNames);
+  const eventIndex = buildEventIndex(allGames, players.canonicalNames);
   const gameToChunk = buildGameToChunkIndex(loadedChunks);
 
   // Save search indexes
   console.log("\n💾 Saving search indexes...");
+  const positionManifest = savePositionIndex(
+    positionIndex,
+    OUTPUT_DIR,
+    POSITION_INDEX_PLIES,
+    { skipUnchanged: incremental },
+  );
+  const explorerManifest = saveExplorerTree(
+    explorerTree,
+    OUTPUT_DIR,
+    {
+      plies: POSITION_INDEX_PLIES,
+      minGames: EXPLORER_MIN_GAMES,
+      topGames: EXPLORER_TOP_GAMES,
+    },
+    { skipUnchanged: incremental },
+  );
   const indexes = [
-    { name: "opening-by-fen.json", data: openingByFen },
-    { name: "opening-by-name.json", data: openingByName },
-    { name: "opening-by-eco.json", data: openingByEco },
+    { name: "opening-by-fen.json", data: searchIndexes.openingByFen },
+    { name: "opening-by-name.json", data: searchIndexes.openingByName },
+    { name: "opening-by-eco.json", data: searchIndexes.openingByEco },
     { name: "player-index.json", data: playerIndex },
     { name: "event-index.json", data: eventIndex },
-    { name: "date-index.json", data: dateIndex },
-    { name: "game-to-players.json", data: gameToPlayers },
+    { name: "date-index.json", data: searchIndexes.date },
+    { name: "setup-position-index.json", data: searchIndexes.setupPositions },
+    { name: "time-class-index.json", data: searchIndexes.timeClasses },
+    { name: "game-to-players.json", data: searchIndexes.gameToPlayers },
     { name: "game-to-chunk.json", data: gameToChunk },
+    { name: POSITION_INDEX_MANIFEST, data: positionManifest },
+    { name: EXPLORER_MANIFEST, data: explorerManifest },
     { name: "deduplication-index.json", data: deduplicationIndex },
     { name: "source-tracking.json", data: sourceTracking },
   ];
 
   for (const index of indexes) {
     const indexPath = path.join(OUTPUT_DIR, index.name);
-    fs.writeFileSync(indexPath, JSON.stringify(index.data, null, 2));
+    const json = JSON.stringify(index.data, null, 2);
+    // An incremental build leaves untouched files alone, keeping their
+    // mtimes (and the next blob upload) quiet
+    if (
+      incremental &&
+      fs.existsSync(indexPath) &&
+      fs.readFileSync(indexPath, "utf-8") === json
+    ) {
+      console.log(`  ✓  ${index.name} unchanged (skipped)`);
+      continue;
+    }
+    fs.writeFileSync(indexPath, json);
     console.log(`  ✅ ${index.name}`);
   }
+  saveIndexBuildState(indexBuildState(allGames));
+  console.log(`  💾 Index build state: ${INDEX_BUILD_STATE_PATH}`);
+  // Older builds kept the state among the indexes, so it was uploaded
+  fs.rmSync(path.join(OUTPUT_DIR, LEGACY_INDEX_BUILD_STATE_FILE), {
+    force: true,
+  });
 
   // Size report
   console.log("\n📊 Index sizes:");
@@ -548,19 +941,37 @@ async function buildIndexes(): Promise<void> {
     return sum + size;
   }, 0);
 
+  const positionShardSize = shardBytes(
+    OUTPUT_DIR,
+    "position",
+    Object.keys(positionManifest.shards),
+  );
+  const explorerShardSize = shardBytes(
+    OUTPUT_DIR,
+    "explorer",
+    Object.keys(explorerManifest.shards),
+  );
+  console.log(
+    `  ${"position-shard-*.json".padEnd(30)} ${(positionShardSize / 1024).toFixed(2).padStart(10)} KB`,
+  );
+  console.log(
+    `  ${"explorer-shard-*.json".padEnd(30)} ${(explorerShardSize / 1024).toFixed(2).padStart(10)} KB`,
+  );
+  const shardSize = positionShardSize + explorerShardSize;
+
   const chunkSize = loadedChunks.reduce((sum, { chunkId }) => {
     const chunkPath = path.join(OUTPUT_DIR, `chunk-${chunkId}.json`);
     return sum + (fs.existsSync(chunkPath) ? fs.statSync(chunkPath).size : 0);
   }, 0);
 
   console.log(
-    `  ${"Total indexes:".padEnd(30)} ${(totalSize / 1024).toFixed(2).padStart(10)} KB`,
+    `  ${"Total indexes:".padEnd(30)} ${((totalSize + shardSize) / 1024).toFixed(2).padStart(10)} KB`,
   );
   console.log(
     `  ${"Total chunks:".padEnd(30)} ${(chunkSize / 1024).toFixed(2).padStart(10)} KB`,
   );
   console.log(
-    `  ${"Grand total:".padEnd(30)} ${((totalSize + chunkSize) / 1024).toFixed(2).padStart(10)} KB`,
+    `  ${"Grand total:".padEnd(30)} ${((totalSize + shardSize + chunkSize) / 1024).toFixed(2).padStart(10)} KB`,
   );
 
   console.log("\n✅ Index building complete!");
@@ -578,4 +989,13 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   });
 }
 
-export { buildIndexes };
+export {
+  buildIndexes,
+  replayMoves,
+  enrichGamesWithEcoJson,
+  ENRICH_VERSION,
+  buildTimeClassIndex,
+  backfillTimeClasses,
+  buildMergeableIndexes,
+  mergeIndexes,
+};
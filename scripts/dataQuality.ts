@@ -0,0 +1,150 @@
+// Result verification and the data-quality report
+// Enrichment replays every game; once the final position is on the board
+// the Result header can be checked against it (a mate has one possible
+// winner, a stalemate is a draw) and the way the game ended recorded.
+
+import fs from "fs";
+import path from "path";
+import type { ChessPGN } from "@chess-pgn/chess-pgn";
+import { tokenizeMovetext } from "./movetext.js";
+import type { DataQualityReport, GameMetadata, Termination } from "./types.js";
+
+const DATA_QUALITY_REPORT_PATH = "./data/reports/data-quality.json";
+
+// How a game ended, from the comments after the last move
+// ("White resigns", "Black lost on time", "Draw agreed")
+const COMMENT_TERMINATIONS: [RegExp, Termination][] = [
+  [/\b(on time|time forfeit|flag(ged)?|time expired|timeout)\b/i, "timeout"],
+  [/\bresign/i, "resignation"],
+  [/\bagree/i, "draw-agreement"],
+  [/\brepetition\b/i, "repetition"],
+];
+
+const DRAW = "1/2-1/2";
+
+function commentTermination(movetext: string): Termination | undefined {
+  let trailing: string[] = [];
+  for (const token of tokenizeMovetext(movetext)) {
+    if (token.depth !== 0) continue;
+    if (token.type === "move") trailing = [];
+    else if (token.type === "comment") trailing.push(token.value);
+  }
+  const text = trailing.join(" ");
+  return COMMENT_TERMINATIONS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Check a game's Result header against its replayed final position and
+ * work out how it ended.
+ *
+ * The position decides first (mate, stalemate, insufficient material), then
+ * an annotated termination (Termination header or a value kept from an
+ * earlier build), then comments after the last move, then a repetition or
+ * fifty-move draw on the board. Anything else is taken as a resignation
+ * (decisive) or draw agreement.
+ *
+ * @param chess - Board after replaying the game's moves
+ * @param result - Result header
+ * @param movetext - Raw movetext, comments included
+ * @param annotated - Termination already known for the game
+ * @returns termination (undefined for "*") and the mismatch, if any
+ */
+function verifyResult(
+  chess: ChessPGN,
+  result: string,
+  movetext: string,
+  annotated?: Termination,
+): { termination?: Termination; issue?: string } {
+  if (chess.isCheckmate()) {
+    // The side to move is the side that was mated
+    const expected = chess.turn() === "w" ? "0-1" : "1-0";
+    return {
+      termination: "mate",
+      issue:
+        result === expected
+          ? undefined
+          : `Checkmate by ${expected === "1-0" ? "White" : "Black"} but Result is ${result}`,
+    };
+  }
+  if (chess.isStalemate()) {
+    return {
+      termination: "stalemate",
+      issue: result === DRAW ? undefined : `Stalemate but Result is ${result}`,
+    };
+  }
+  if (chess.isInsufficientMaterial()) {
+    return {
+      termination: "insufficient-material",
+      issue:
+        result === DRAW
+          ? undefined
+          : `Insufficient material but Result is ${result}`,
+    };
+  }
+
+  if (result !== "1-0" && result !== "0-1" && result !== DRAW) return {};
+
+  const termination = annotated ?? commentTermination(movetext);
+  if (termination) return { termination };
+
+  if (result === DRAW) {
+    if (chess.isThreefoldRepetition()) return { termination: "repetition" };
+    if (chess.isDrawByFiftyMoves()) return { termination: "fifty-move" };
+    return { termination: "draw-agreement" };
+  }
+  return { termination: "resignation" };
+}
+
+/**
+ * Roll up terminations and result mismatches across the corpus
+ */
+function buildDataQualityReport(games: GameMetadata[]): DataQualityReport {
+  const terminations: DataQualityReport["terminations"] = {};
+  const mismatches: DataQualityReport["mismatches"] = [];
+  let unverified = 0;
+
+  for (const game of games) {
+    if (!game.termination) {
+      unverified++;
+      continue;
+    }
+    terminations[game.termination] = (terminations[game.termination] ?? 0) + 1;
+    if (game.resultIssue) {
+      mismatches.push({
+        idx: game.idx,
+        hash: game.hash,
+        white: game.white,
+        black: game.black,
+        event: game.event,
+        date: game.date,
+        result: game.result,
+        termination: game.termination,
+        issue: game.resultIssue,
+        sourceFile: game.sourceFile,
+      });
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    games: games.length,
+    unverified,
+    terminations,
+    mismatches,
+  };
+}
+
+function saveDataQualityReport(
+  report: DataQualityReport,
+  reportPath = DATA_QUALITY_REPORT_PATH,
+): void {
+  fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+  fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+}
+
+export {
+  verifyResult,
+  buildDataQualityReport,
+  saveDataQualityReport,
+  DATA_QUALITY_REPORT_PATH,
+};
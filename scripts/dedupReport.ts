@@ -0,0 +1,416 @@
+// Dedup audit report
+// Every duplicate rejected during a download run is recorded by processGames.
+// After each file the records are appended to a JSON Lines file; at the end
+// of the run they are matched back to the games they collided with in one
+// pass over the chunks, rolled up and written as a JSON report plus a
+// Markdown summary.
+
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { pipeline } from "stream/promises";
+import { gameMovesHash } from "./hashGame.js";
+import type { PlayerNameResolver } from "./playerNames.js";
+import type {
+  DedupPolicy,
+  DedupReport,
+  DuplicateCounts,
+  DuplicateFields,
+  DuplicateRecord,
+  GameMetadata,
+} from "./types.js";
+
+const DEDUP_REPORTS_DIR = "./data/reports/dedup";
+
+// Markdown lists are capped; the .jsonl file always has every record
+const MARKDOWN_LIST_LIMIT = 200;
+// Records held in memory at once; more wait in a spool file until the
+// file's games are saved
+const RECORD_BATCH_SIZE = 10_000;
+
+const COMPARED_FIELDS: (keyof DuplicateFields)[] = [
+  "white",
+  "black",
+  "event",
+  "site",
+  "date",
+  "round",
+  "result",
+];
+
+interface DedupReportRun {
+  adapterId: string;
+  trackingKey: string;
+  startedAt: string;
+  policy: DedupPolicy;
+}
+
+function emptyCounts(): DuplicateCounts {
+  return { exact: 0, nearDuplicate: 0, headerCollision: 0 };
+}
+
+function countKind(counts: DuplicateCounts, kind: DuplicateRecord["kind"]) {
+  if (kind === "exact") counts.exact++;
+  else if (kind === "near-duplicate") counts.nearDuplicate++;
+  else counts.headerCollision++;
+}
+
+function gameFields(game: GameMetadata): DuplicateFields {
+  return {
+    white: game.white,
+    black: game.black,
+    event: game.event,
+    site: game.site,
+    date: game.date,
+    round: game.round,
+    result: game.result,
+  };
+}
+
+/**
+ * The parts of an existing game a record is matched and compared against
+ */
+interface ExistingGame {
+  fields: DuplicateFields;
+  sourceFile: string;
+  movesHash?: string; // Undefined for games without moves
+}
+
+/**
+ * Lookups of the existing games records point at, built in one pass over
+ * the chunks. Header matches are found by hash; near-duplicates by idx,
+ * which is not unique across sources, so those are confirmed against the
+ * move hash.
+ */
+interface ExistingGames {
+  byHash: Map<string, ExistingGame>;
+  byIdx: Map<number, ExistingGame[]>;
+}
+
+function loadExistingGames(
+  wantedHashes: Set<string>,
+  wantedIdx: Set<number>,
+  indexesDir: string,
+  playerNames?: PlayerNameResolver,
+): ExistingGames {
+  const byHash = new Map<string, ExistingGame>();
+  const byIdx = new Map<number, ExistingGame[]>();
+  if (!fs.existsSync(indexesDir)) return { byHash, byIdx };
+
+  const chunkFiles = fs
+    .readdirSync(indexesDir)
+    .filter((f) => f.startsWith("chunk-") && f.endsWith(".json"));
+
+  for (const chunkFile of chunkFiles) {
+    const chunk: { games: GameMetadata[] } = JSON.parse(
+      fs.readFileSync(path.join(indexesDir, chunkFile), "utf-8"),
+    );
+    for (const game of chunk.games) {
+      if (!wantedHashes.has(game.hash) && !wantedIdx.has(game.idx)) continue;
+      const existing: ExistingGame = {
+        fields: gameFields(game),
+        sourceFile: game.sourceFile,
+        movesHash: gameMovesHash(game, playerNames),
+      };
+      if (wantedHashes.has(game.hash)) byHash.set(game.hash, existing);
+      if (wantedIdx.has(game.idx)) {
+        const games = byIdx.get(game.idx) ?? [];
+        games.push(existing);
+        byIdx.set(game.idx, games);
+      }
+    }
+  }
+
+  return { byHash, byIdx };
+}
+
+/**
+ * Match a record to its existing game and fill in what differs (in place)
+ */
+function matchDuplicate(record: DuplicateRecord, games: ExistingGames): void {
+  const existing = record.existingHash
+    ? games.byHash.get(record.existingHash)
+    : games.byIdx
+        .get(record.existingIdx)
+        ?.find((game) => game.movesHash === record.movesHash);
+  if (!existing) return;
+
+  const { fields } = existing;
+  record.existing = { ...fields, sourceFile: existing.sourceFile };
+  record.differences = COMPARED_FIELDS.filter(
+    (field) =>
+      // Older games have no round recorded
+      fields[field] !== undefined &&
+      record.incoming[field] !== undefined &&
+      fields[field] !== record.incoming[field],
+  );
+  if (record.kind === "header-collision") {
+    record.differences.push("moves");
+  }
+}
+
+async function* readRecords(filePath: string): AsyncIterable<DuplicateRecord> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line) yield JSON.parse(line);
+  }
+}
+
+/**
+ * Add a matched record to the roll-up
+ */
+function tallyDuplicate(report: DedupReport, record: DuplicateRecord): void {
+  countKind(report.totals, record.kind);
+  report.byFile[record.sourceFile] ??= emptyCounts();
+  countKind(report.byFile[record.sourceFile], record.kind);
+
+  const key = record.differences
+    ? record.differences.join(",") || "(none)"
+    : "(existing game not found)";
+  report.byDifference[key] = (report.byDifference[key] ?? 0) + 1;
+
+  const samples =
+    record.kind === "header-collision"
+      ? report.samples.headerCollision
+      : record.kind === "near-duplicate"
+        ? report.samples.nearDuplicate
+        : undefined;
+  if (samples && samples.length < MARKDOWN_LIST_LIMIT) samples.push(record);
+}
+
+function reportBase(
+  run: Pick<DedupReportRun, "trackingKey" | "startedAt">,
+  reportsDir: string,
+): string {
+  const stamp = run.startedAt.replace(/[:.]/g, "-");
+  return path.join(reportsDir, `${run.trackingKey}-${stamp}`);
+}
+
+function appendRecords(filePath: string, records: DuplicateRecord[]): void {
+  fs.appendFileSync(
+    filePath,
+    records.map((record) => JSON.stringify(record) + "\n").join(""),
+  );
+}
+
+/**
+ * Collects a run's rejected duplicates without holding them all in memory.
+ * processGames pushes records; flush() (after a file's games are saved)
+ * appends them to <trackingKey>-<startedAt>.jsonl; finish() matches every
+ * record of the run against the chunks and returns the roll-up.
+ */
+interface DedupRecorder {
+  push(record: DuplicateRecord): void;
+  flush(): Promise<void>;
+  finish(): Promise<DedupReport>;
+}
+
+/**
+ * A resumed run keeps its journal's startedAt, so it appends to the
+ * interrupted run's records and finish() tallies them all. Records of the
+ * file being processed when the run died were never flushed; that file is
+ * reprocessed, so they are recorded again.
+ */
+function createDedupRecorder(
+  run: DedupReportRun,
+  indexesDir: string,
+  {
+    playerNames,
+    reportsDir = DEDUP_REPORTS_DIR,
+    batchSize = RECORD_BATCH_SIZE,
+  }: {
+    playerNames?: PlayerNameResolver;
+    reportsDir?: string;
+    batchSize?: number;
+  } = {},
+): DedupRecorder {
+  const base = reportBase(run, reportsDir);
+  const recordsPath = `${base}.jsonl`;
+  const spoolPath = `${base}.spool.jsonl`;
+  fs.rmSync(spoolPath, { force: true });
+
+  let pending: DuplicateRecord[] = [];
+
+  return {
+    push(record) {
+      pending.push(record);
+      if (pending.length >= batchSize) {
+        fs.mkdirSync(reportsDir, { recursive: true });
+        appendRecords(spoolPath, pending);
+        pending = [];
+      }
+    },
+
+    async flush() {
+      if (fs.existsSync(spoolPath)) {
+        await pipeline(
+          fs.createReadStream(spoolPath),
+          fs.createWriteStream(recordsPath, { flags: "a" }),
+        );
+        fs.rmSync(spoolPath);
+      }
+      if (pending.length > 0) {
+        fs.mkdirSync(reportsDir, { recursive: true });
+        appendRecords(recordsPath, pending);
+        pending = [];
+      }
+    },
+
+    async finish() {
+      const report: DedupReport = {
+        ...run,
+        generatedAt: new Date().toISOString(),
+        totals: emptyCounts(),
+        byFile: {},
+        byDifference: {},
+        recordsFile: path.basename(recordsPath),
+        samples: { headerCollision: [], nearDuplicate: [] },
+      };
+      if (!fs.existsSync(recordsPath)) return report;
+
+      // Only the keys are collected; the lookups hold just the games the
+      // records point at
+      const wantedHashes = new Set<string>();
+      const wantedIdx = new Set<number>();
+      for await (const record of readRecords(recordsPath)) {
+        if (record.existingHash) wantedHashes.add(record.existingHash);
+        else wantedIdx.add(record.existingIdx);
+      }
+      const games = loadExistingGames(
+        wantedHashes,
+        wantedIdx,
+        indexesDir,
+        playerNames,
+      );
+
+      // Matched records replace the unmatched ones via a temp file
+      const matchedPath = `${recordsPath}.tmp`;
+      fs.rmSync(matchedPath, { force: true });
+      let batch: DuplicateRecord[] = [];
+      for await (const record of readRecords(recordsPath)) {
+        matchDuplicate(record, games);
+        tallyDuplicate(report, record);
+        batch.push(record);
+        if (batch.length >= batchSize) {
+          appendRecords(matchedPath, batch);
+          batch = [];
+        }
+      }
+      appendRecords(matchedPath, batch);
+      fs.renameSync(matchedPath, recordsPath);
+
+      return report;
+    },
+  };
+}
+
+function describeGame(fields: DuplicateFields): string {
+  const round = fields.round ? ` (${fields.round})` : "";
+  return `${fields.white} - ${fields.black}, ${fields.event}${round} ${fields.date} ${fields.result}`;
+}
+
+function renderRecords(
+  records: DuplicateRecord[],
+  total: number,
+  recordsFile: string,
+): string[] {
+  const lines: string[] = [];
+  for (const record of records) {
+    lines.push(`- **${record.sourceFile}**: ${describeGame(record.incoming)}`);
+    if (record.existing) {
+      lines.push(
+        `  - matched game ${record.existingIdx} (${record.existing.sourceFile}): ${describeGame(record.existing)}`,
+      );
+      lines.push(
+        `  - differs in: ${record.differences!.join(", ") || "nothing"}`,
+      );
+    } else {
+      lines.push(
+        `  - matched game ${record.existingIdx} (not found in chunks)`,
+      );
+    }
+  }
+  if (total > records.length) {
+    lines.push(`- ... and ${total - records.length} more (see ${recordsFile})`);
+  }
+  return lines;
+}
+
+function renderDedupReportMarkdown(report: DedupReport): string {
+  const { headerCollision: collisions, nearDuplicate: near } = report.samples;
+
+  const lines = [
+    `# Dedup report: ${report.adapterId}`,
+    "",
+    `Run started ${report.startedAt}, policy \`${report.policy}\`.`,
+    "",
+    "| Kind | Count |",
+    "| --- | ---: |",
+    `| Exact duplicates | ${report.totals.exact} |`,
+    `| Near-duplicates (same moves, different headers) | ${report.totals.nearDuplicate} |`,
+    `| Header collisions (same headers, different moves) | ${report.totals.headerCollision} |`,
+    "",
+    "## ⚠️ Header collisions",
+    "",
+    "Same header hash, different moves: these may be real games the dedup key threw away.",
+    "",
+    ...(collisions.length > 0
+      ? renderRecords(
+          collisions,
+          report.totals.headerCollision,
+          report.recordsFile,
+        )
+      : ["None."]),
+    "",
+    "## Near-duplicates",
+    "",
+    ...(near.length > 0
+      ? renderRecords(near, report.totals.nearDuplicate, report.recordsFile)
+      : ["None."]),
+    "",
+    "## By differing fields",
+    "",
+    "| Fields | Count |",
+    "| --- | ---: |",
+    ...Object.entries(report.byDifference)
+      .sort((a, b) => b[1] - a[1])
+      .map(([fields, count]) => `| ${fields} | ${count} |`),
+    "",
+    "## By source file",
+    "",
+    "| File | Exact | Near | Collisions |",
+    "| --- | ---: | ---: | ---: |",
+    ...Object.entries(report.byFile).map(
+      ([file, c]) =>
+        `| ${file} | ${c.exact} | ${c.nearDuplicate} | ${c.headerCollision} |`,
+    ),
+    "",
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Write <trackingKey>-<startedAt>.json and .md next to the recorder's .jsonl;
+ * returns the Markdown path
+ */
+function saveDedupReport(
+  report: DedupReport,
+  reportsDir = DEDUP_REPORTS_DIR,
+): string {
+  fs.mkdirSync(reportsDir, { recursive: true });
+  const base = reportBase(report, reportsDir);
+  fs.writeFileSync(`${base}.json`, JSON.stringify(report, null, 2));
+  fs.writeFileSync(`${base}.md`, renderDedupReportMarkdown(report));
+  return `${base}.md`;
+}
+
+export {
+  createDedupRecorder,
+  renderDedupReportMarkdown,
+  saveDedupReport,
+  DEDUP_REPORTS_DIR,
+};
+export type { DedupRecorder };
@@ -0,0 +1,104 @@
+// Download Lichess Elite monthly archives from database.nikonoel.fr
+// Discovers available months and imports only months not yet tracked
+
+import {
+  runIngest,
+  createOfflineAdapter,
+  fetchToDownloadDir,
+  readZipPgn,
+  USER_AGENT,
+} from "./ingest.js";
+import type { SourceAdapter } from "./types.js";
+
+const LICHESS_ELITE_BASE_URL = "https://database.nikonoel.fr";
+const THROTTLE_MS = 10000; // 10 seconds between downloads (archives are large)
+
+interface MonthlyArchive {
+  month: string; // YYYY-MM
+  filename: string;
+  url: string;
+}
+
+/**
+ * Fetch the Lichess Elite index page and extract all monthly archive links
+ * Archive names look like lichess_elite_2024-12.zip
+ */
+async function discoverMonthlyArchives(): Promise<MonthlyArchive[]> {
+  console.log(`📡 Fetching archive list: ${LICHESS_ELITE_BASE_URL}/`);
+
+  const response = await fetch(`${LICHESS_ELITE_BASE_URL}/`, {
+    headers: { "User-Agent": USER_AGENT },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch archive list: ${response.status}`);
+  }
+
+  const html = await response.text();
+
+  // Links may be relative or absolute; resolve both against the base URL
+  const linkRegex = /href=["']([^"']*lichess_elite_(\d{4}-\d{2})\.zip)["']/gi;
+  const archives = new Map<string, MonthlyArchive>();
+  let match;
+
+  while ((match = linkRegex.exec(html)) !== null) {
+    const month = match[2];
+    archives.set(month, {
+      month,
+      filename: `lichess_elite_${month}.zip`,
+      url: new URL(match[1], `${LICHESS_ELITE_BASE_URL}/`).toString(),
+    });
+  }
+
+  const sorted = Array.from(archives.values()).sort((a, b) =>
+    a.month.localeCompare(b.month),
+  );
+  console.log(`  ✅ Found ${sorted.length} monthly archives\n`);
+  return sorted;
+}
+
+const lichessAdapter: SourceAdapter = {
+  id: "lichess-elite",
+  trackingKey: "lichess",
+  label: "Lichess Elite (database.nikonoel.fr)",
+  throttleMs: THROTTLE_MS,
+  // Lichess: both players must hold FIDE titles
+  filterOptions: { requireTitles: true },
+
+  async discover() {
+    const archives = await discoverMonthlyArchives();
+    return archives.map(({ filename, url }) => ({ filename, url }));
+  },
+
+  // Monthly archives are immutable once published - only new months
+  async checkForChanges(files, tracking) {
+    return files.filter((f) => !tracking.files[f.filename]);
+  },
+
+  fetch: fetchToDownloadDir,
+  readPgn: readZipPgn,
+};
+
+async function downloadLichessElite({
+  offline = process.env.OFFLINE === "true",
+} = {}): Promise<void> {
+  await runIngest(
+    offline ? createOfflineAdapter(lichessAdapter) : lichessAdapter,
+  );
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  downloadLichessElite()
+    .then(() => {
+      console.log("✅ Lichess Elite download complete!");
+      // Explicit exit to ensure process terminates cleanly
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Failed:", error);
+      process.exit(1);
+    });
+}
+
+export { downloadLichessElite, discoverMonthlyArchives, lichessAdapter };
@@ -3,16 +3,20 @@
 
 import fs from "fs";
 import path from "path";
-import AdmZip from "adm-zip";
-import { shouldImportGame } from "./filterGame.js";
-import { hashGame } from "./hashGame.js";
-import { indexPgnGames } from "@chess-pgn/chess-pgn";
+import {
+  sleep,
+  downloadFile,
+  extractZip,
+  entrySourceFile,
+  processGames,
+  emptyDeduplicationIndex,
+  addToDeduplicationIndex,
+  DOWNLOAD_DIR,
+  USER_AGENT,
+} from "./ingest.js";
 import type { GameMetadata, DeduplicationIndex } from "./types.js";
 
-const DOWNLOAD_DIR = "./data/pgn-downloads";
 const THROTTLE_MS = 10000; // 10 seconds between downloads
-const USER_AGENT =
-  "Fenster Chess Opening Explorer (https://fensterchess.com) - Educational research project";
 
 // Source 1: pgnmentor.com - 5 masters
 // Temporarily disabled - using existing processed-games.json
@@ -26,6 +30,7 @@ const MASTERS: { name: string; filename: string }[] = [
 
 // Source 2: Lichess Elite Database (2400+ rated games)
 // https://database.nikonoel.fr/
+// Legacy one-off list - incremental monthly imports use downloadLichess.ts
 // Note: Files are distributed as .zip (not .zst as originally documented)
 const LICHESS_ELITE = [
   // Start with 1 month POC - December 2024
@@ -48,167 +53,6 @@ interface ProcessedGames {
   };
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-async function downloadFile(url: string, outputPath: string): Promise<boolean> {
-  try {
-    console.log(`  Downloading: ${url}`);
-
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": USER_AGENT,
-      },
-    });
-
-    if (!response.ok) {
-      console.error(`  ❌ HTTP ${response.status}: ${response.statusText}`);
-      return false;
-    }
-
-    const buffer = await response.arrayBuffer();
-    fs.writeFileSync(outputPath, Buffer.from(buffer));
-
-    console.log(`  ✅ Downloaded: ${(buffer.byteLength / 1024).toFixed(2)} KB`);
-    return true;
-  } catch (error) {
-    console.error(`  ❌ Download failed:`, error);
-    return false;
-  }
-}
-
-function extractZip(zipPath: string): string | null {
-  try {
-    const zip = new AdmZip(zipPath);
-    const entries = zip.getEntries();
-
-    // Find PGN file
-    const pgnEntry = entries.find((entry) => entry.entryName.endsWith(".pgn"));
-
-    if (!pgnEntry) {
-      console.error("  ❌ No PGN file found in ZIP");
-      return null;
-    }
-
-    console.log(`  📦 Extracting: ${pgnEntry.entryName}`);
-    return zip.readAsText(pgnEntry);
-  } catch (error) {
-    console.error(`  ❌ Extraction failed:`, error);
-    return null;
-  }
-}
-
-async function processGames(
-  pgnContent: string,
-  sourceFile: string,
-  deduplicationIndex: DeduplicationIndex,
-  gameIndex: number,
-  filterOptions?: { requireTitles?: boolean; requireElo?: boolean },
-): Promise<{
-  games: GameMetadata[];
-  nextIndex: number;
-  stats: {
-    total: number;
-    accepted: number;
-    rejected: number;
-    duplicates: number;
-  };
-}> {
-  const games: GameMetadata[] = [];
-  const stats = {
-    total: 0,
-    accepted: 0,
-    rejected: 0,
-    duplicates: 0,
-  };
-
-  console.log(`  Parsing games...`);
-
-  // Index game boundaries (fast, no full parsing)
-  const indices = indexPgnGames(pgnContent);
-
-  let processed = 0;
-  const progressInterval = 100;
-
-  for (const gameMetadata of indices) {
-    stats.total++;
-    processed++;
-
-    if (processed % progressInterval === 0) {
-      process.stdout.write(`\r  Processing: ${processed} games...`);
-    }
-
-    try {
-      const headers = gameMetadata.headers;
-
-      if (!headers) {
-        stats.rejected++;
-        continue;
-      }
-
-      // Apply filtering (pass options for site-specific rules)
-      // Note: shouldImportGame() handles metadata objects with .headers property
-      if (!shouldImportGame(gameMetadata, filterOptions)) {
-        stats.rejected++;
-        continue;
-      }
-
-      // Check for duplicates (hash based on headers only, no moves needed)
-      const hash = hashGame(headers);
-      if (deduplicationIndex[hash] !== undefined) {
-        stats.duplicates++;
-        continue;
-      }
-
-      // Game is accepted - extract just the moves section (not headers)
-      const pgnChunk = pgnContent.slice(
-        gameMetadata.startOffset,
-        gameMetadata.endOffset,
-      );
-
-      // Strip headers - find where moves start (after last header line and blank line)
-      const movesSectionMatch = pgnChunk.match(/\n\n(.+)/s);
-      const movesOnly = movesSectionMatch
-        ? movesSectionMatch[1].trim()
-        : pgnChunk;
-
-      const metadata: GameMetadata = {
-        idx: gameIndex,
-        white: headers.White || "Unknown",
-        black: headers.Black || "Unknown",
-        whiteElo: parseInt(headers.WhiteElo || "0"),
-        blackElo: parseInt(headers.BlackElo || "0"),
-        result: headers.Result || "*",
-        date: headers.Date || "????.??.??",
-        event: headers.Event || "Unknown",
-        site: headers.Site || "?",
-        eco: headers.ECO,
-        opening: headers.Opening,
-        variation: headers.Variation,
-        subVariation: headers.SubVariation,
-        moves: movesOnly, // Store only moves section (no headers)
-        ply: 0, // Will be calculated in buildIndexes
-        source: "pgnmentor",
-        sourceFile,
-        hash,
-      };
-
-      games.push(metadata);
-      deduplicationIndex[hash] = gameIndex;
-      gameIndex++;
-      stats.accepted++;
-    } catch (error) {
-      // Error processing this game
-      stats.rejected++;
-    }
-  }
-
-  process.stdout.write(`\r  Processing: ${stats.total} games complete!\n`);
-
-  return { games, nextIndex: gameIndex, stats };
-}
-
 async function downloadAndProcessMasters(): Promise<ProcessedGames> {
   console.log("🎯 Processing master games database\n");
   console.log(`Throttle: ${THROTTLE_MS / 1000} seconds between downloads`);
@@ -221,7 +65,7 @@ async function downloadAndProcessMasters(): Promise<ProcessedGames> {
 
   // Load existing processed-games.json if it exists (preserves pgnmentor data)
   let allGames: GameMetadata[] = [];
-  let deduplicationIndex: DeduplicationIndex = {};
+  let deduplicationIndex = emptyDeduplicationIndex();
   // Legacy script: sourceTracking not used anymore
   let sourceTracking: any = { sources: {} };
   let gameIndex = 0;
@@ -234,6 +78,14 @@ async function downloadAndProcessMasters(): Promise<ProcessedGames> {
     );
     allGames = existing.games;
     deduplicationIndex = existing.deduplicationIndex;
+    // Files written before move hashing have a flat hash → idx index
+    if (!deduplicationIndex?.headers || !deduplicationIndex.moves) {
+      console.log("  🔁 Rebuilding the dedup index from the saved games...");
+      deduplicationIndex = emptyDeduplicationIndex();
+      for (const game of allGames) {
+        addToDeduplicationIndex(deduplicationIndex, game);
+      }
+    }
     sourceTracking = existing.sourceTracking;
     gameIndex = allGames.length;
     console.log(`  ✅ Loaded ${allGames.length} existing games\n`);
@@ -267,24 +119,33 @@ async function downloadAndProcessMasters(): Promise<ProcessedGames> {
     const zipSize = fs.statSync(zipPath).size;
 
     // Extract
-    const pgnContent = extractZip(zipPath);
-    if (!pgnContent) {
+    const entries = extractZip(zipPath);
+    if (!entries) {
       console.log(`  Skipping ${master.name} due to extraction failure`);
       continue;
     }
 
     // Process games (pgnmentor: no title requirement)
     console.log(`  Processing games...`);
-    const { games, nextIndex, stats } = await processGames(
-      pgnContent,
-      master.filename,
-      deduplicationIndex,
-      gameIndex,
-      { requireTitles: false, requireElo: false },
-    );
-
-    allGames.push(...games);
-    gameIndex = nextIndex;
+    const stats = { total: 0, accepted: 0, rejected: 0, duplicates: 0 };
+    for (const { entryName, pgn } of entries) {
+      const result = await processGames(
+        pgn,
+        entrySourceFile(master.filename, entryName),
+        deduplicationIndex,
+        gameIndex,
+        {
+          source: "pgnmentor",
+          filterOptions: { requireTitles: false, requireElo: false },
+        },
+      );
+      allGames.push(...result.games);
+      gameIndex = result.nextIndex;
+      stats.total += result.stats.total;
+      stats.accepted += result.stats.accepted;
+      stats.rejected += result.stats.rejected;
+      stats.duplicates += result.stats.duplicates;
+    }
 
     // Update total stats
     totalStats.total += stats.total;
@@ -331,24 +192,30 @@ async function downloadAndProcessMasters(): Promise<ProcessedGames> {
     const zipSize = fs.statSync(zipPath).size;
 
     // Extract
-    const pgnContent = extractZip(zipPath);
-    if (!pgnContent) {
+    const entries = extractZip(zipPath);
+    if (!entries) {
       console.log(`  Skipping ${source.name} due to extraction failure`);
       continue;
     }
 
     // Process games (Lichess: require titled players)
     console.log(`  Processing games...`);
-    const { games, nextIndex, stats } = await processGames(
-      pgnContent,
-      source.filename,
-      deduplicationIndex,
-      gameIndex,
-      { requireTitles: true },
-    );
-
-    allGames.push(...games);
-    gameIndex = nextIndex;
+    const stats = { total: 0, accepted: 0, rejected: 0, duplicates: 0 };
+    for (const { entryName, pgn } of entries) {
+      const result = await processGames(
+        pgn,
+        entrySourceFile(source.filename, entryName),
+        deduplicationIndex,
+        gameIndex,
+        { source: "lichess-elite", filterOptions: { requireTitles: true } },
+      );
+      allGames.push(...result.games);
+      gameIndex = result.nextIndex;
+      stats.total += result.stats.total;
+      stats.accepted += result.stats.accepted;
+      stats.rejected += result.stats.rejected;
+      stats.duplicates += result.stats.duplicates;
+    }
 
     // Update total stats
     totalStats.total += stats.total;
@@ -1,51 +1,20 @@
 // Download PGN files from pgnmentor.com/players
 // Discovers available files and checks for updates using batch HEAD requests
 
-import fs from "fs";
-import path from "path";
-import AdmZip from "adm-zip";
-import { shouldImportGame } from "./filterGame.js";
-import { hashGame } from "./hashGame.js";
-import { indexPgnGames } from "@chess-pgn/chess-pgn";
-import type {
-  GameMetadata,
-  DeduplicationIndex,
-  SourceTracking,
-  SiteSourceTracking,
-} from "./types.js";
+import {
+  runIngest,
+  createOfflineAdapter,
+  fetchToDownloadDir,
+  readZipPgn,
+  mapWithConcurrency,
+  USER_AGENT,
+  HTTP_CONCURRENCY,
+} from "./ingest.js";
+import type { SourceAdapter, SourceFile, SiteSourceTracking } from "./types.js";
 
-const DOWNLOAD_DIR = "./data/pgn-downloads";
 const PGNMENTOR_BASE_URL = "https://www.pgnmentor.com";
 const FILES_PAGE_URL = `${PGNMENTOR_BASE_URL}/files.html`;
 const THROTTLE_MS = 2000; // 2 seconds between downloads
-const USER_AGENT =
-  "Fenster Chess Opening Explorer (https://fensterchess.com) - Educational research project";
-
-interface FileMetadata {
-  filename: string;
-  url: string;
-  lastModified?: string;
-  etag?: string;
-  size?: number;
-  gameCount?: number;
-  downloadDate?: string;
-}
-
-interface ProcessedGames {
-  games: GameMetadata[];
-  deduplicationIndex: DeduplicationIndex;
-  sourceTracking: SiteSourceTracking;
-  stats: {
-    total: number;
-    accepted: number;
-    rejected: number;
-    duplicates: number;
-  };
-}
-
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
 
 /**
  * Fetch the files page and extract all players/*.zip links
@@ -78,60 +47,60 @@ async function discoverPlayerFiles(): Promise<string[]> {
 }
 
 /**
- * Check HEAD metadata for all files concurrently (like k6 http.batch())
+ * Check HEAD metadata for all files, at most `concurrency` requests at a time
  * Returns map of filename -> { lastModified, etag }
  */
 async function batchCheckFileMetadata(
   filenames: string[],
+  concurrency = HTTP_CONCURRENCY,
 ): Promise<Map<string, { lastModified?: string; etag?: string }>> {
   console.log(
-    `🔍 Checking metadata for ${filenames.length} files concurrently...`,
+    `🔍 Checking metadata for ${filenames.length} files (${concurrency} at a time)...`,
   );
 
   const results = new Map<string, { lastModified?: string; etag?: string }>();
 
-  // Make all HEAD requests concurrently (k6 batch pattern)
-  const promises = filenames.map(async (filename) => {
-    const url = `${PGNMENTOR_BASE_URL}/players/${filename}`;
-
-    try {
-      const response = await fetch(url, {
-        method: "HEAD",
-        headers: { "User-Agent": USER_AGENT },
-      });
-
-      if (response.ok) {
-        const lastModified = response.headers.get("last-modified") || undefined;
-        const etag = response.headers.get("etag") || undefined;
-
-        return {
-          filename,
-          metadata: { lastModified, etag },
-          success: true,
-        };
-      } else {
+  // Bounded batch of HEAD requests - be polite to pgnmentor
+  const allResults = await mapWithConcurrency(
+    filenames,
+    concurrency,
+    async (filename) => {
+      const url = `${PGNMENTOR_BASE_URL}/players/${filename}`;
+
+      try {
+        const response = await fetch(url, {
+          method: "HEAD",
+          headers: { "User-Agent": USER_AGENT },
+        });
+
+        if (response.ok) {
+          const lastModified =
+            response.headers.get("last-modified") || undefined;
+          const etag = response.headers.get("etag") || undefined;
+
+          return {
+            filename,
+            metadata: { lastModified, etag },
+            success: true,
+          };
+        } else {
+          return {
+            filename,
+            metadata: {},
+            success: false,
+            status: response.status,
+          };
+        }
+      } catch (error) {
         return {
           filename,
           metadata: {},
           success: false,
-          status: response.status,
+          error: (error as Error).message,
         };
       }
-    } catch (error) {
-      return {
-        filename,
-        metadata: {},
-        success: false,
-        error: (error as Error).message,
-      };
-    }
-  });
-
-  // Wait for all requests to complete
-  console.log(
-    `  ⏳ Waiting for ${filenames.length} concurrent HEAD requests...`,
+    },
   );
-  const allResults = await Promise.all(promises);
 
   // Collect results and show summary
   let successCount = 0;
@@ -152,367 +121,34 @@ async function batchCheckFileMetadata(
   return results;
 }
 
-async function downloadFile(
-  url: string,
-  outputPath: string,
-  retries = 3,
-): Promise<boolean> {
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      if (attempt > 1) {
-        const delay = attempt * 2000;
-        console.log(
-          `  ⏳ Retry ${attempt}/${retries} after ${delay / 1000}s...`,
-        );
-        await new Promise((r) => setTimeout(r, delay));
-      } else {
-        console.log(`  Downloading: ${url}`);
-      }
-
-      const response = await fetch(url, {
-        headers: { "User-Agent": USER_AGENT },
-      });
-
-      if (!response.ok) {
-        console.error(`  ❌ HTTP ${response.status}: ${response.statusText}`);
-        return false; // HTTP errors are not transient — don't retry
-      }
-
-      const buffer = await response.arrayBuffer();
-      fs.writeFileSync(outputPath, Buffer.from(buffer));
-
-      console.log(
-        `  ✅ Downloaded: ${(buffer.byteLength / 1024 / 1024).toFixed(2)} MB`,
-      );
-      return true;
-    } catch (error: any) {
-      const isTransient =
-        error?.cause?.code === "ECONNRESET" ||
-        error?.cause?.code === "ECONNREFUSED" ||
-        error?.cause?.code === "ETIMEDOUT" ||
-        error?.code === "ECONNRESET";
-
-      if (isTransient && attempt < retries) {
-        console.error(
-          `  ⚠️  Network error (${error?.cause?.code ?? error?.code}), will retry...`,
-        );
-      } else {
-        console.error(`  ❌ Download failed:`, error);
-        return false;
-      }
-    }
-  }
-  return false;
-}
-
-function extractZip(zipPath: string): string | null {
-  try {
-    const zip = new AdmZip(zipPath);
-    const entries = zip.getEntries();
-
-    // Find PGN file
-    const pgnEntry = entries.find((entry) => entry.entryName.endsWith(".pgn"));
-
-    if (!pgnEntry) {
-      console.error("  ❌ No PGN file found in ZIP");
-      return null;
-    }
-
-    console.log(`  📦 Extracting: ${pgnEntry.entryName}`);
-    return zip.readAsText(pgnEntry);
-  } catch (error) {
-    console.error(`  ❌ Extraction failed:`, error);
-    return null;
-  }
-}
-
-async function processGames(
-  pgnContent: string,
-  sourceFile: string,
-  deduplicationIndex: DeduplicationIndex,
-  gameIndex: number,
-): Promise<{
-  games: GameMetadata[];
-  nextIndex: number;
-  stats: {
-    total: number;
-    accepted: number;
-    rejected: number;
-    duplicates: number;
-  };
-}> {
-  const games: GameMetadata[] = [];
-  const stats = {
-    total: 0,
-    accepted: 0,
-    rejected: 0,
-    duplicates: 0,
-  };
-
-  console.log(`  Parsing games...`);
-
-  // Index game boundaries (fast, no full parsing)
-  const indices = indexPgnGames(pgnContent);
-
-  let processed = 0;
-  const progressInterval = 100;
-
-  for (const gameMetadata of indices) {
-    stats.total++;
-    processed++;
-
-    if (processed % progressInterval === 0) {
-      process.stdout.write(`\r  Processing: ${processed} games...`);
-    }
-
-    try {
-      const headers = gameMetadata.headers;
-
-      if (!headers) {
-        stats.rejected++;
-        continue;
-      }
-
-      // Apply filtering (pgnmentor: no title requirement)
-      // Note: shouldImportGame() handles metadata objects with .headers property
-      if (
-        !shouldImportGame(gameMetadata, {
-          requireTitles: false,
-          requireElo: false,
-        })
-      ) {
-        stats.rejected++;
-        continue;
-      }
-
-      // Check for duplicates (hash based on headers only, no moves needed)
-      const hash = hashGame(headers);
-      if (deduplicationIndex[hash] !== undefined) {
-        stats.duplicates++;
-        continue;
-      }
-
-      // Game is accepted - extract just the moves section (not headers)
-      const pgnChunk = pgnContent.slice(
-        gameMetadata.startOffset,
-        gameMetadata.endOffset,
-      );
-
-      // Strip headers - find where moves start (after last header line and blank line)
-      const movesSectionMatch = pgnChunk.match(/\n\n(.+)/s);
-      const movesOnly = movesSectionMatch
-        ? movesSectionMatch[1].trim()
-        : pgnChunk;
-
-      const metadata: GameMetadata = {
-        idx: gameIndex,
-        white: headers.White || "Unknown",
-        black: headers.Black || "Unknown",
-        whiteElo: parseInt(headers.WhiteElo || "0"),
-        blackElo: parseInt(headers.BlackElo || "0"),
-        result: headers.Result || "*",
-        date: headers.Date || "????.??.??",
-        event: headers.Event || "Unknown",
-        site: headers.Site || "?",
-        eco: headers.ECO,
-        opening: headers.Opening,
-        variation: headers.Variation,
-        subVariation: headers.SubVariation,
-        moves: movesOnly, // Store only moves section (no headers)
-        ply: 0, // Will be calculated in buildIndexes
-        source: "pgnmentor",
-        sourceFile,
-        hash,
-      };
-
-      games.push(metadata);
-      deduplicationIndex[hash] = gameIndex;
-      gameIndex++;
-      stats.accepted++;
-    } catch (error) {
-      // Error processing this game
-      stats.rejected++;
-    }
-  }
-
-  process.stdout.write(`\r  Processing: ${stats.total} games complete!\n`);
-
-  return { games, nextIndex: gameIndex, stats };
-}
-
-/**
- * Load existing chunks and find max game ID + deduplication index
- */
-function loadExistingChunksData(indexesDir: string): {
-  maxGameId: number;
-  deduplicationIndex: DeduplicationIndex;
-  lastChunk: { id: number; games: GameMetadata[] } | null;
-} {
-  if (!fs.existsSync(indexesDir)) {
-    return { maxGameId: -1, deduplicationIndex: {}, lastChunk: null };
-  }
-
-  // Find all existing chunks
-  const chunkFiles = fs
-    .readdirSync(indexesDir)
-    .filter((f) => f.startsWith("chunk-") && f.endsWith(".json"))
-    .sort((a, b) => {
-      const numA = parseInt(a.match(/chunk-(\d+)/)?.[1] || "0");
-      const numB = parseInt(b.match(/chunk-(\d+)/)?.[1] || "0");
-      return numA - numB;
-    });
-
-  if (chunkFiles.length === 0) {
-    return { maxGameId: -1, deduplicationIndex: {}, lastChunk: null };
-  }
-
-  // Load last chunk
-  const lastChunkFile = chunkFiles[chunkFiles.length - 1];
-  const lastChunkId = parseInt(lastChunkFile.match(/chunk-(\d+)/)?.[1] || "0");
-  const lastChunkPath = path.join(indexesDir, lastChunkFile);
-  const lastChunkData: { games: GameMetadata[] } = JSON.parse(
-    fs.readFileSync(lastChunkPath, "utf-8"),
-  );
-
-  // Find max game ID across all games in last chunk
-  let maxGameId = -1;
-  const deduplicationIndex: DeduplicationIndex = {};
-
-  // Build dedup index from all chunks
-  for (const chunkFile of chunkFiles) {
-    const chunkPath = path.join(indexesDir, chunkFile);
-    const chunk: { games: GameMetadata[] } = JSON.parse(
-      fs.readFileSync(chunkPath, "utf-8"),
-    );
-
-    for (const game of chunk.games) {
-      if (game.idx > maxGameId) {
-        maxGameId = game.idx;
-      }
-      if (game.hash) {
-        deduplicationIndex[game.hash] = game.idx;
-      }
-    }
-  }
-
-  return {
-    maxGameId,
-    deduplicationIndex,
-    lastChunk: { id: lastChunkId, games: lastChunkData.games },
-  };
-}
-
 /**
- * Save games to chunks, respecting 4000 game limit per chunk
+ * Classify discovered files as new/modified using individual file tracking.
+ * Batch HEAD metadata is compared with the stored Last-Modified (or ETag).
  */
-function saveGamesToChunks(
-  games: GameMetadata[],
-  indexesDir: string,
-  existingLastChunk: { id: number; games: GameMetadata[] } | null,
-): void {
-  if (games.length === 0) return;
-
-  // Ensure indexes directory exists
-  if (!fs.existsSync(indexesDir)) {
-    fs.mkdirSync(indexesDir, { recursive: true });
-  }
-
-  const CHUNK_SIZE = 4000;
-  let currentChunk = existingLastChunk
-    ? { id: existingLastChunk.id, games: [...existingLastChunk.games] }
-    : { id: 0, games: [] };
-
-  let gamesAdded = 0;
-
-  for (const game of games) {
-    // Check if adding this game would exceed chunk size
-    if (currentChunk.games.length >= CHUNK_SIZE) {
-      // Save current chunk
-      const chunkPath = path.join(indexesDir, `chunk-${currentChunk.id}.json`);
-      fs.writeFileSync(
-        chunkPath,
-        JSON.stringify({ games: currentChunk.games }, null, 2),
-      );
-      console.log(
-        `  💾 Saved chunk-${currentChunk.id}.json (${currentChunk.games.length} games)`,
-      );
-
-      // Start new chunk
-      currentChunk = { id: currentChunk.id + 1, games: [] };
-    }
-
-    currentChunk.games.push(game);
-    gamesAdded++;
-  }
-
-  // Save final chunk
-  if (currentChunk.games.length > 0) {
-    const chunkPath = path.join(indexesDir, `chunk-${currentChunk.id}.json`);
-    fs.writeFileSync(
-      chunkPath,
-      JSON.stringify({ games: currentChunk.games }, null, 2),
-    );
-    console.log(
-      `  💾 Saved chunk-${currentChunk.id}.json (${currentChunk.games.length} games)`,
-    );
-  }
-
-  console.log(`  ✅ Total games added to chunks: ${gamesAdded}`);
-}
-
-async function discoverPgnmentorFiles(): Promise<void> {
-  console.log("🎯 Discovering files from pgnmentor.com/files.html\n");
-  console.log(`User-Agent: ${USER_AGENT}\n`);
-
-  // Create download directory
-  if (!fs.existsSync(DOWNLOAD_DIR)) {
-    fs.mkdirSync(DOWNLOAD_DIR, { recursive: true });
-  }
-
-  // Load existing source tracking (used for incremental local runs)
-  const sourceTrackingPath = path.join(
-    DOWNLOAD_DIR,
-    "..",
-    "indexes",
-    "source-tracking.json",
+async function checkPgnmentorChanges(
+  files: SourceFile[],
+  sourceTracking: SiteSourceTracking,
+): Promise<SourceFile[]> {
+  const fileMetadataMap = await batchCheckFileMetadata(
+    files.map((f) => f.filename),
   );
-  let allSourceTracking: SourceTracking = {};
-
-  if (fs.existsSync(sourceTrackingPath)) {
-    allSourceTracking = JSON.parse(
-      fs.readFileSync(sourceTrackingPath, "utf-8"),
-    );
-  }
-
-  // Get pgnmentor-specific tracking
-  let sourceTracking: SiteSourceTracking = allSourceTracking.pgnmentor || {
-    files: {},
-  };
-
-  console.log("📂 Loading source tracking...");
-  const inProductionCount = Object.keys(sourceTracking.files).length;
-  console.log(`  ✅ Tracked files: ${inProductionCount}\n`);
-
-  const visitDate = new Date().toISOString();
 
-  // Step 1: Discover available files
-  const discoveredFiles = await discoverPlayerFiles();
+  const filesToProcess: SourceFile[] = [];
 
-  // Step 2: Batch check HEAD metadata for all files
-  const fileMetadataMap = await batchCheckFileMetadata(discoveredFiles);
-
-  // Step 3: Classify files as new/modified using individual file tracking
-  const filesToProcess: string[] = [];
-  const unchangedFiles: string[] = [];
-
-  for (const filename of discoveredFiles) {
+  for (const file of files) {
+    const { filename } = file;
     const currentMetadata = fileMetadataMap.get(filename);
     const trackedFile = sourceTracking.files[filename];
+    const withMetadata: SourceFile = {
+      ...file,
+      lastModified: currentMetadata?.lastModified,
+      etag: currentMetadata?.etag,
+    };
 
     if (!trackedFile) {
       // Never processed before
       console.log(`  📥 Will process: ${filename} (new file)`);
-      filesToProcess.push(filename);
+      filesToProcess.push(withMetadata);
       continue;
     }
 
@@ -525,205 +161,55 @@ async function discoverPgnmentorFiles(): Promise<void> {
         console.log(`  📥 Will process: ${filename} (updated)`);
         console.log(`     Current: ${currentMetadata.lastModified}`);
         console.log(`     Stored:  ${trackedFile.lastModified}`);
-        filesToProcess.push(filename);
-      } else {
-        unchangedFiles.push(filename);
+        filesToProcess.push(withMetadata);
       }
     } else if (currentMetadata?.etag && trackedFile.etag) {
       // Fallback to ETag comparison when Last-Modified is unavailable
       if (currentMetadata.etag !== trackedFile.etag) {
         console.log(`  📥 Will process: ${filename} (etag changed)`);
-        filesToProcess.push(filename);
-      } else {
-        unchangedFiles.push(filename);
+        filesToProcess.push(withMetadata);
       }
     } else {
       // Missing comparable metadata - process to be safe
       console.log(`  📥 Will process: ${filename} (no comparable metadata)`);
-      filesToProcess.push(filename);
-    }
-  }
-
-  // Summary report
-  console.log("\n" + "=".repeat(60));
-  console.log("📊 Discovery Summary");
-  console.log("=".repeat(60));
-  console.log(`Total files discovered: ${discoveredFiles.length}`);
-  console.log(`  📥 To process: ${filesToProcess.length}`);
-  console.log(`  ✅ Unchanged: ${unchangedFiles.length}`);
-  console.log("=".repeat(60));
-
-  if (filesToProcess.length > 0) {
-    console.log("\n📥 Files to process:");
-    filesToProcess.forEach((f) => console.log(`   - ${f}`));
-  }
-
-  if (filesToProcess.length === 0) {
-    console.log("\n✅ All files up to date - nothing to download\n");
-    return;
-  }
-
-  // Apply file limit if MAX_FILES env var is set (for testing)
-  const MAX_FILES = parseInt(process.env.MAX_FILES || "0");
-  const limitedFiles =
-    MAX_FILES > 0 && filesToProcess.length > MAX_FILES
-      ? filesToProcess.slice(0, MAX_FILES)
-      : filesToProcess;
-
-  if (limitedFiles.length < filesToProcess.length) {
-    console.log(
-      `\n⚠️  MAX_FILES limit: Processing only ${limitedFiles.length} of ${filesToProcess.length} files`,
-    );
-  }
-
-  console.log(
-    `\n🚀 Starting download and processing of ${limitedFiles.length} files...\n`,
-  );
-
-  // Load existing chunks and deduplication index
-  const indexesDir = path.join(DOWNLOAD_DIR, "..", "indexes");
-  const { maxGameId, deduplicationIndex, lastChunk } =
-    loadExistingChunksData(indexesDir);
-
-  console.log(`📊 Current database state:`);
-  console.log(`  Max game ID: ${maxGameId}`);
-  console.log(`  Unique games: ${Object.keys(deduplicationIndex).length}`);
-  console.log(
-    `  Last chunk: ${lastChunk ? `chunk-${lastChunk.id} (${lastChunk.games.length} games)` : "none"}\n`,
-  );
-
-  let nextGameId = maxGameId + 1;
-  const totalStats = { total: 0, accepted: 0, rejected: 0, duplicates: 0 };
-  const allNewGames: GameMetadata[] = [];
-
-  // Process each file
-  for (let i = 0; i < limitedFiles.length; i++) {
-    const filename = limitedFiles[i];
-    const fileNum = i + 1;
-
-    console.log(
-      `\n[${fileNum}/${limitedFiles.length}] Processing ${filename}...`,
-    );
-
-    try {
-      // Download
-      const url = `https://www.pgnmentor.com/players/${filename}`;
-      const zipPath = path.join(DOWNLOAD_DIR, filename);
-
-      console.log(`  📥 Downloading...`);
-      const downloaded = await downloadFile(url, zipPath);
-
-      if (!downloaded) {
-        console.error(`  ❌ Skipping ${filename} due to download failure`);
-        continue;
-      }
-
-      // Extract
-      console.log(`  📦 Extracting...`);
-      const pgnContent = extractZip(zipPath);
-
-      if (!pgnContent) {
-        console.error(`  ❌ No PGN content found in ${filename}`);
-        continue;
-      }
-
-      // Process games
-      console.log(`  ⚙️  Processing games...`);
-      const { games, nextIndex, stats } = await processGames(
-        pgnContent,
-        filename,
-        deduplicationIndex,
-        nextGameId,
-      );
-
-      // Update stats
-      totalStats.total += stats.total;
-      totalStats.accepted += stats.accepted;
-      totalStats.rejected += stats.rejected;
-      totalStats.duplicates += stats.duplicates;
-
-      allNewGames.push(...games);
-      nextGameId = nextIndex;
-
-      console.log(`  ✅ Imported ${games.length} new games`);
-      console.log(
-        `     Total: ${stats.total}, Accepted: ${stats.accepted}, Rejected: ${stats.rejected}, Duplicates: ${stats.duplicates}`,
-      );
-
-      // Update local tracking for this file, even if no new games were imported.
-      const currentMetadata = fileMetadataMap.get(filename);
-      sourceTracking.files[filename] = {
-        filename,
-        url,
-        lastModified: currentMetadata?.lastModified,
-        etag: currentMetadata?.etag,
-        downloadDate: new Date().toISOString(),
-        gameCount: stats.total,
-      };
-      sourceTracking.lastPageVisit = visitDate;
-      allSourceTracking.pgnmentor = sourceTracking;
-      fs.writeFileSync(
-        sourceTrackingPath,
-        JSON.stringify(allSourceTracking, null, 2),
-      );
-
-      // Periodic saves and prompts
-      if (fileNum % 5 === 0 || fileNum === limitedFiles.length) {
-        console.log(`\n💾 Saving progress after ${fileNum} files...`);
-        saveGamesToChunks(allNewGames, indexesDir, lastChunk);
-        allNewGames.length = 0; // Clear saved games
-
-        // Update deduplication index
-        const dedupPath = path.join(indexesDir, "deduplication-index.json");
-        fs.writeFileSync(
-          dedupPath,
-          JSON.stringify(deduplicationIndex, null, 2),
-        );
-        console.log(
-          `  ✅ Deduplication index updated (${Object.keys(deduplicationIndex).length} unique games)`,
-        );
-      }
-
-      // Throttle
-      if (i < limitedFiles.length - 1) {
-        console.log(`  ⏳ Throttling ${THROTTLE_MS}ms...`);
-        await new Promise((resolve) => setTimeout(resolve, THROTTLE_MS));
-      }
-    } catch (error) {
-      console.error(`  ❌ Error processing ${filename}:`, error);
-      // Continue with next file
+      filesToProcess.push(withMetadata);
     }
   }
 
-  // Final save (if any remaining games)
-  if (allNewGames.length > 0) {
-    console.log(`\n💾 Final save...`);
-    saveGamesToChunks(allNewGames, indexesDir, lastChunk);
-  }
+  return filesToProcess;
+}
 
-  // Final deduplication index save
-  const dedupPath = path.join(indexesDir, "deduplication-index.json");
-  fs.writeFileSync(dedupPath, JSON.stringify(deduplicationIndex, null, 2));
+const pgnmentorAdapter: SourceAdapter = {
+  id: "pgnmentor",
+  trackingKey: "pgnmentor",
+  label: "pgnmentor.com/files.html",
+  throttleMs: THROTTLE_MS,
+  // Historic games often lack ELO headers, and no titles are required
+  filterOptions: { requireTitles: false, requireElo: false },
+
+  async discover() {
+    const filenames = await discoverPlayerFiles();
+    return filenames.map((filename) => ({
+      filename,
+      url: `${PGNMENTOR_BASE_URL}/players/${filename}`,
+    }));
+  },
+  checkForChanges: checkPgnmentorChanges,
+  fetch: fetchToDownloadDir,
+  readPgn: readZipPgn,
+};
 
-  // Final summary
-  console.log("\n" + "=".repeat(60));
-  console.log("📊 Processing Complete");
-  console.log("=".repeat(60));
-  console.log(`Files processed: ${limitedFiles.length}`);
-  console.log(`Total games: ${totalStats.total}`);
-  console.log(`Accepted: ${totalStats.accepted}`);
-  console.log(`Rejected: ${totalStats.rejected}`);
-  console.log(`Duplicates skipped: ${totalStats.duplicates}`);
-  console.log(`Next game ID: ${nextGameId}`);
-  console.log("=".repeat(60));
-  console.log("\n✅ Download and chunking complete!");
-  console.log("\nℹ️  Local source tracking updated for processed files.");
-  console.log(
-    "⚠️  Production tracking is still finalized after upload to Netlify Blobs.\n",
+/**
+ * Run the pgnmentor download step. In offline mode (OFFLINE=true) the ZIPs
+ * already in data/pgn-downloads are replayed using the metadata recorded in
+ * source-tracking.json, and pgnmentor.com is never contacted.
+ */
+async function discoverPgnmentorFiles({
+  offline = process.env.OFFLINE === "true",
+} = {}): Promise<void> {
+  await runIngest(
+    offline ? createOfflineAdapter(pgnmentorAdapter) : pgnmentorAdapter,
   );
-
-  // Explicit exit to ensure process terminates cleanly
-  process.exit(0);
 }
 
 // Run if executed directly
@@ -732,6 +218,8 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     .then(() => {
       console.log("✅ pgnmentor.com download complete!");
       console.log("\nNext step: Discuss index update strategy");
+      // Explicit exit to ensure process terminates cleanly
+      process.exit(0);
     })
     .catch((error) => {
       console.error("❌ Failed:", error);
@@ -739,4 +227,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
     });
 }
 
-export { discoverPgnmentorFiles };
+export { discoverPgnmentorFiles, pgnmentorAdapter, batchCheckFileMetadata };
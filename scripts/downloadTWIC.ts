@@ -0,0 +1,109 @@
+// Download weekly PGN issues from The Week in Chess (theweekinchess.com)
+// Finds issues missing from local tracking and imports them in order
+
+import {
+  runIngest,
+  createOfflineAdapter,
+  fetchToDownloadDir,
+  readZipPgn,
+  USER_AGENT,
+} from "./ingest.js";
+import type { SourceAdapter, SourceFile } from "./types.js";
+
+// Override to point at a local fixture server when testing
+const TWIC_BASE_URL = process.env.TWIC_BASE_URL || "https://theweekinchess.com";
+// First issue published with a PGN zip on the site
+const TWIC_FIRST_ISSUE = parseInt(process.env.TWIC_FIRST_ISSUE || "920");
+const THROTTLE_MS = 5000; // 5 seconds between downloads
+
+/**
+ * Zip filename for a TWIC issue, e.g. 1550 → twic1550g.zip
+ */
+function twicFilename(issue: number): string {
+  return `twic${issue}g.zip`;
+}
+
+function twicUrl(issue: number, baseUrl = TWIC_BASE_URL): string {
+  return `${baseUrl}/zips/${twicFilename(issue)}`;
+}
+
+/**
+ * Fetch the TWIC index page and return the highest issue number linked
+ */
+async function discoverLatestIssue(baseUrl = TWIC_BASE_URL): Promise<number> {
+  const pageUrl = `${baseUrl}/twic`;
+  console.log(`📡 Fetching issue list: ${pageUrl}`);
+
+  const response = await fetch(pageUrl, {
+    headers: { "User-Agent": USER_AGENT },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch TWIC issue list: ${response.status}`);
+  }
+
+  const html = await response.text();
+  const linkRegex = /twic(\d+)g\.zip/gi;
+  let latest = 0;
+  let match;
+
+  while ((match = linkRegex.exec(html)) !== null) {
+    latest = Math.max(latest, parseInt(match[1]));
+  }
+
+  if (latest === 0) {
+    throw new Error("No TWIC issue links found on issue list page");
+  }
+
+  console.log(`  ✅ Latest issue: ${latest}\n`);
+  return latest;
+}
+
+const twicAdapter: SourceAdapter = {
+  id: "twic",
+  trackingKey: "twic",
+  label: `The Week in Chess (${TWIC_BASE_URL})`,
+  throttleMs: THROTTLE_MS,
+  // TWIC: every OTB game of the week - ELO filter on, no title requirement
+  filterOptions: { requireTitles: false },
+
+  // Every issue from TWIC_FIRST_ISSUE to the latest published one
+  async discover() {
+    const latestIssue = await discoverLatestIssue();
+    const files: SourceFile[] = [];
+    for (let issue = TWIC_FIRST_ISSUE; issue <= latestIssue; issue++) {
+      files.push({ filename: twicFilename(issue), url: twicUrl(issue), issue });
+    }
+    return files;
+  },
+
+  // Issues are never republished - missing issues are the untracked ones
+  async checkForChanges(files, tracking) {
+    return files.filter((f) => !tracking.files[f.filename]);
+  },
+
+  fetch: fetchToDownloadDir,
+  readPgn: readZipPgn,
+};
+
+async function downloadTWIC({
+  offline = process.env.OFFLINE === "true",
+} = {}): Promise<void> {
+  await runIngest(offline ? createOfflineAdapter(twicAdapter) : twicAdapter);
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  downloadTWIC()
+    .then(() => {
+      console.log("✅ TWIC download complete!");
+      // Explicit exit to ensure process terminates cleanly
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Failed:", error);
+      process.exit(1);
+    });
+}
+
+export { downloadTWIC, discoverLatestIssue, twicFilename, twicAdapter };
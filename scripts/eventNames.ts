@@ -0,0 +1,304 @@
+// Event/tournament name canonicalization
+// The same tournament arrives as "Tata Steel Masters 2024", "Tata Steel-A"
+// or under an older sponsor name. Games are grouped into one event per
+// canonical name and year, then near-identical groups held at the same site
+// with shared players are merged.
+
+import fs from "fs";
+import type { EventAliases, EventIndex, GameMetadata } from "./types.js";
+
+const EVENT_ALIASES_PATH = "./data/event-aliases.json";
+
+// Words that vary between sources without changing the event
+const FILLER_WORDS = new Set([
+  "chess",
+  "tournament",
+  "the",
+  "of",
+  "int",
+  "intl",
+]);
+
+/**
+ * Normalized event key: lowercase, no diacritics, punctuation, years,
+ * edition numbers ("75th") or filler words.
+ *
+ *   "Tata Steel Chess Masters 2024" → "tata steel masters"
+ *   "86th Tata Steel Masters"       → "tata steel masters"
+ *   "Wch U20 (Men)"                 → "wch u20 men"
+ */
+function normalizeEventName(raw: string): string {
+  return (raw || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(
+      (word) =>
+        word &&
+        !/^(19|20)\d\d$/.test(word) &&
+        !/^\d+(st|nd|rd|th)$/.test(word) &&
+        !FILLER_WORDS.has(word),
+    )
+    .join(" ");
+}
+
+/**
+ * Resolves raw Event headers through the alias registry
+ */
+interface EventNameResolver {
+  /** Canonical event key for a raw Event header */
+  canonicalKey(raw: string): string;
+  /** Display name from the alias file, if the key is a registered canonical */
+  registeredName(key: string): string | undefined;
+}
+
+function createEventNameResolver(
+  aliases: EventAliases = {},
+): EventNameResolver {
+  const variantToKey = new Map<string, string>();
+  const registered = new Map<string, string>();
+
+  for (const [canonical, variants] of Object.entries(aliases)) {
+    const key = normalizeEventName(canonical);
+    if (!key) continue;
+    registered.set(key, canonical);
+    for (const variant of variants) {
+      const variantKey = normalizeEventName(variant);
+      if (variantKey) variantToKey.set(variantKey, key);
+    }
+  }
+
+  return {
+    canonicalKey(raw) {
+      const key = normalizeEventName(raw);
+      return variantToKey.get(key) ?? key;
+    },
+    registeredName(key) {
+      return registered.get(key);
+    },
+  };
+}
+
+function loadEventAliases(aliasPath = EVENT_ALIASES_PATH): EventAliases {
+  if (!fs.existsSync(aliasPath)) return {};
+  return JSON.parse(fs.readFileSync(aliasPath, "utf-8"));
+}
+
+/** Site key for clustering: "Wijk aan Zee NED" and "Wijk aan Zee" match */
+function normalizeSite(raw: string): string {
+  return (raw || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+[A-Z]{3}$/, "") // trailing FIDE country code
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function gameYear(date: string): string | null {
+  const year = (date || "").split(".")[0];
+  return /^\d{4}$/.test(year) ? year : null;
+}
+
+function roundNumber(round: string | undefined): number | null {
+  const match = (round || "").match(/^\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+interface EventCluster {
+  key: string;
+  year: string | null;
+  site: string; // normalized
+  games: GameMetadata[];
+  spellings: Map<string, number>;
+  sites: Map<string, number>;
+  players: Set<string>;
+}
+
+/**
+ * Group games into canonical events and build the event index.
+ *
+ * 1. Each game's Event header resolves to a key (alias file, then
+ *    normalization), and games are grouped by key + year.
+ * 2. Groups from the same year and site are merged when one name's words
+ *    are a subset of the other's and they share at least one player, so
+ *    "Tata Steel" folds into "Tata Steel Masters" but a women's section
+ *    held alongside the open stays separate.
+ *
+ * @param canonicalPlayers - Raw player name → canonical name (from canonicalizePlayers)
+ */
+function canonicalizeEvents(
+  games: GameMetadata[],
+  resolver: EventNameResolver,
+  canonicalPlayers: Map<string, string> = new Map(),
+): EventIndex {
+  const clusters = new Map<string, EventCluster>();
+  const keyCache = new Map<string, string>();
+
+  for (const game of games) {
+    if (!game.event) continue;
+    let key = keyCache.get(game.event);
+    if (key === undefined) {
+      key = resolver.canonicalKey(game.event);
+      keyCache.set(game.event, key);
+    }
+    if (!key) continue;
+
+    const year = gameYear(game.date);
+    const id = `${key}|${year ?? ""}`;
+    let cluster = clusters.get(id);
+    if (!cluster) {
+      cluster = {
+        key,
+        year,
+        site: "",
+        games: [],
+        spellings: new Map(),
+        sites: new Map(),
+        players: new Set(),
+      };
+      clusters.set(id, cluster);
+    }
+
+    cluster.games.push(game);
+    increment(cluster.spellings, game.event);
+    if (game.site && game.site !== "?") increment(cluster.sites, game.site);
+    for (const raw of [game.white, game.black]) {
+      if (raw) cluster.players.add(canonicalPlayers.get(raw) ?? raw);
+    }
+  }
+
+  for (const cluster of clusters.values()) {
+    cluster.site = normalizeSite(mostCommon(cluster.sites) ?? "");
+  }
+
+  const merged = mergeClusters([...clusters.values()], resolver);
+
+  const index: EventIndex = {};
+  for (const cluster of merged) {
+    const name =
+      resolver.registeredName(cluster.key) ?? mostCommon(cluster.spellings)!;
+    const slug = slugify(name);
+    const base =
+      cluster.year && !slug.includes(cluster.year)
+        ? `${slug}-${cluster.year}`
+        : slug;
+    // Two events can still slug alike (same name, different sites)
+    let id = base;
+    for (let n = 2; index[id]; n++) id = `${base}-${n}`;
+
+    // Loop rather than Math.min(...): Lichess "Rated Blitz game" events
+    // hold far more games than spread arguments allow
+    let rounds: { first: number; last: number } | null = null;
+    for (const game of cluster.games) {
+      const r = roundNumber(game.round);
+      if (r === null) continue;
+      rounds = rounds
+        ? { first: Math.min(rounds.first, r), last: Math.max(rounds.last, r) }
+        : { first: r, last: r };
+    }
+
+    index[id] = {
+      name,
+      year: cluster.year,
+      site: mostCommon(cluster.sites) ?? "?",
+      rounds,
+      variants: [...cluster.spellings.keys()].sort(),
+      players: [...cluster.players].sort(),
+      games: cluster.games.map((g) => g.idx),
+    };
+  }
+
+  return index;
+}
+
+function mergeClusters(
+  clusters: EventCluster[],
+  resolver: EventNameResolver,
+): EventCluster[] {
+  // Only clusters sharing year and site are merge candidates
+  const bySiteYear = new Map<string, EventCluster[]>();
+  for (const cluster of clusters) {
+    if (!cluster.site || !cluster.year) continue;
+    const id = `${cluster.site}|${cluster.year}`;
+    const list = bySiteYear.get(id) ?? [];
+    list.push(cluster);
+    bySiteYear.set(id, list);
+  }
+
+  const absorbedBy = new Map<EventCluster, EventCluster>();
+  const root = (c: EventCluster): EventCluster => {
+    while (absorbedBy.has(c)) c = absorbedBy.get(c)!;
+    return c;
+  };
+
+  for (const list of bySiteYear.values()) {
+    // Longest names first, so shorter spellings fold into the fuller one
+    list.sort((a, b) => b.key.length - a.key.length);
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const into = root(list[i]);
+        const from = root(list[j]);
+        if (into === from) continue;
+        // Never merge two events the alias file names separately
+        if (resolver.registeredName(from.key)) continue;
+        if (!isWordSubset(from.key, into.key)) continue;
+        if (![...from.players].some((p) => into.players.has(p))) continue;
+
+        into.games.push(...from.games);
+        for (const [raw, n] of from.spellings)
+          increment(into.spellings, raw, n);
+        for (const [raw, n] of from.sites) increment(into.sites, raw, n);
+        for (const player of from.players) into.players.add(player);
+        absorbedBy.set(from, into);
+      }
+    }
+  }
+
+  return clusters.filter((c) => !absorbedBy.has(c));
+}
+
+function isWordSubset(shorter: string, longer: string): boolean {
+  const words = new Set(longer.split(" "));
+  return shorter.split(" ").every((word) => words.has(word));
+}
+
+function increment(counts: Map<string, number>, key: string, by = 1): void {
+  counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+/** Most frequent value; ties go to the longer (more descriptive) spelling */
+function mostCommon(counts: Map<string, number>): string | undefined {
+  let best = "";
+  let bestCount = 0;
+  for (const [value, n] of counts) {
+    const longer =
+      value.length > best.length ||
+      (value.length === best.length && value < best);
+    if (n > bestCount || (n === bestCount && longer)) {
+      best = value;
+      bestCount = n;
+    }
+  }
+  return bestCount > 0 ? best : undefined;
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+export {
+  normalizeEventName,
+  createEventNameResolver,
+  loadEventAliases,
+  canonicalizeEvents,
+  EVENT_ALIASES_PATH,
+};
+export type { EventNameResolver };
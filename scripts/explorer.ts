@@ -0,0 +1,277 @@
+// Opening explorer
+// A masters explorer in the style of Lichess: for each position, the moves
+// played next with how often they were played, how those games ended, the
+// players' average rating, and the best-rated games. It is computed on every
+// build from a local cache of which games played which move where; only
+// new and changed games are replayed into the cache.
+
+import fs from "fs";
+import path from "path";
+import { parseSanMoves } from "./movetext.js";
+import { insertSortedId } from "./indexMerge.js";
+import type { GameDiff } from "./indexMerge.js";
+import type { GameReplay } from "./positionIndex.js";
+import { saveShards, MAX_SHARD_BYTES } from "./shards.js";
+import type {
+  ExplorerGameRef,
+  ExplorerManifest,
+  ExplorerMove,
+  ExplorerMoveCache,
+  ExplorerTree,
+  GameMetadata,
+} from "./types.js";
+
+const EXPLORER_MANIFEST = "explorer-index.json";
+const EXPLORER_CACHE_PATH = "./data/index-cache/explorer-moves.json";
+const DEFAULT_EXPLORER_MIN_GAMES = 2;
+const DEFAULT_EXPLORER_TOP_GAMES = 5;
+// Bumped when what goes into the cache changes; older caches are rebuilt
+const EXPLORER_CACHE_VERSION = 3;
+
+type ExplorerMoves = ExplorerMoveCache["positions"];
+
+/**
+ * Record the move each game played from every position before a replayed ply,
+ * by game hash since idx is not unique. Set-up position games stay out, as
+ * they do of the opening indexes.
+ */
+function addExplorerMoves(
+  moves: ExplorerMoves,
+  games: GameMetadata[],
+  replays: Map<string, GameReplay>,
+): void {
+  for (const game of games) {
+    if (game.startFen) continue;
+    const replay = replays.get(game.hash);
+    if (!replay) continue;
+    const sans = parseSanMoves(game.moves);
+    let from = replay.start;
+    replay.positions.forEach((to, ply) => {
+      moves[from] ??= {};
+      moves[from][sans[ply]] ??= [];
+      insertSortedId(moves[from][sans[ply]], game.hash);
+      from = to;
+    });
+  }
+}
+
+function buildExplorerMoves(
+  games: GameMetadata[],
+  replays: Map<string, GameReplay>,
+): ExplorerMoves {
+  const moves: ExplorerMoves = {};
+  addExplorerMoves(
+    moves,
+    [...games].sort((a, b) => a.idx - b.idx),
+    replays,
+  );
+  return moves;
+}
+
+/**
+ * Merge new and changed games into the cached move lists (in place)
+ */
+function mergeExplorerMoves(
+  moves: ExplorerMoves,
+  diff: GameDiff,
+  replays: Map<string, GameReplay>,
+): ExplorerMoves {
+  if (diff.removedHashes.size > 0) {
+    for (const [hash, bySan] of Object.entries(moves)) {
+      for (const [san, gameHashes] of Object.entries(bySan)) {
+        if (!gameHashes.some((h) => diff.removedHashes.has(h))) continue;
+        const kept = gameHashes.filter((h) => !diff.removedHashes.has(h));
+        if (kept.length > 0) bySan[san] = kept;
+        else delete bySan[san];
+      }
+      if (Object.keys(bySan).length === 0) delete moves[hash];
+    }
+  }
+  addExplorerMoves(moves, diff.added, replays);
+  return moves;
+}
+
+/**
+ * The cached move lists, or null if there are none at this depth
+ */
+function loadExplorerCache(
+  plies: number,
+  cachePath = EXPLORER_CACHE_PATH,
+): ExplorerMoves | null {
+  if (!fs.existsSync(cachePath)) return null;
+  const cache: ExplorerMoveCache = JSON.parse(
+    fs.readFileSync(cachePath, "utf-8"),
+  );
+  return cache.version === EXPLORER_CACHE_VERSION && cache.plies === plies
+    ? cache.positions
+    : null;
+}
+
+function saveExplorerCache(
+  moves: ExplorerMoves,
+  plies: number,
+  cachePath = EXPLORER_CACHE_PATH,
+): void {
+  const cache: ExplorerMoveCache = {
+    version: EXPLORER_CACHE_VERSION,
+    plies,
+    positions: moves,
+  };
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  const tmpPath = `${cachePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(cache));
+  fs.renameSync(tmpPath, cachePath);
+}
+
+const RESULT_FIELDS: Record<string, "white" | "draws" | "black"> = {
+  "1-0": "white",
+  "1/2-1/2": "draws",
+  "0-1": "black",
+};
+
+function ratings(game: GameMetadata): number[] {
+  return [game.whiteElo, game.blackElo].filter((elo) => elo > 0);
+}
+
+function meanRating(game: GameMetadata): number {
+  const rated = ratings(game);
+  return rated.length > 0
+    ? rated.reduce((sum, elo) => sum + elo, 0) / rated.length
+    : 0;
+}
+
+function gameRef(game: GameMetadata, move: string): ExplorerGameRef {
+  const year = game.date?.split(".")[0];
+  return {
+    idx: game.idx,
+    move,
+    white: game.white,
+    black: game.black,
+    whiteElo: game.whiteElo > 0 ? game.whiteElo : undefined,
+    blackElo: game.blackElo > 0 ? game.blackElo : undefined,
+    result: game.result,
+    year: year && year !== "????" ? year : undefined,
+  };
+}
+
+/**
+ * Turn the move lists into explorer entries. A game that comes back to a
+ * position and plays another move counts once for the position and once
+ * for each move.
+ */
+function buildExplorerTree(
+  moves: ExplorerMoves,
+  games: GameMetadata[],
+  {
+    minGames = DEFAULT_EXPLORER_MIN_GAMES,
+    topGames = DEFAULT_EXPLORER_TOP_GAMES,
+  } = {},
+): ExplorerTree {
+  console.log("\n🌳 Building Opening Explorer...");
+
+  const byHash = new Map(games.map((game) => [game.hash, game]));
+  const tree: ExplorerTree = {};
+
+  for (const [hash, bySan] of Object.entries(moves)) {
+    const entries: ExplorerMove[] = [];
+    const finished = new Map<string, GameMetadata[]>();
+    for (const [san, gameHashes] of Object.entries(bySan)) {
+      const played = gameHashes
+        .map((h) => byHash.get(h))
+        .filter((game): game is GameMetadata =>
+          Boolean(game && RESULT_FIELDS[game.result]),
+        );
+      if (played.length === 0) continue;
+      finished.set(san, played);
+
+      const entry: ExplorerMove = {
+        san,
+        games: played.length,
+        white: 0,
+        draws: 0,
+        black: 0,
+      };
+      let eloSum = 0;
+      let rated = 0;
+      for (const game of played) {
+        entry[RESULT_FIELDS[game.result]]++;
+        for (const elo of ratings(game)) {
+          eloSum += elo;
+          rated++;
+        }
+      }
+      if (rated > 0) entry.averageElo = Math.round(eloSum / rated);
+      entries.push(entry);
+    }
+    entries.sort((a, b) => b.games - a.games || a.san.localeCompare(b.san));
+
+    // Each game once, with the most played of its moves here
+    const moveOf = new Map<string, string>();
+    for (const { san } of entries) {
+      for (const game of finished.get(san)!) {
+        if (!moveOf.has(game.hash)) moveOf.set(game.hash, san);
+      }
+    }
+    if (moveOf.size < minGames) continue;
+
+    const positionGames = [...moveOf.keys()].map((h) => byHash.get(h)!);
+    const totals = { white: 0, draws: 0, black: 0 };
+    for (const game of positionGames) totals[RESULT_FIELDS[game.result]]++;
+
+    tree[hash] = {
+      games: positionGames.length,
+      ...totals,
+      moves: entries,
+      topGames: positionGames
+        .sort(
+          (a, b) =>
+            meanRating(b) - meanRating(a) ||
+            a.idx - b.idx ||
+            a.hash.localeCompare(b.hash),
+        )
+        .slice(0, topGames)
+        .map((game) => gameRef(game, moveOf.get(game.hash)!)),
+    };
+  }
+
+  console.log(
+    `  ✅ ${Object.keys(tree).length} positions reached by ${minGames}+ games`,
+  );
+  return tree;
+}
+
+/**
+ * Write the shards; returns the manifest, which the caller writes with the
+ * other indexes
+ */
+function saveExplorerTree(
+  tree: ExplorerTree,
+  indexesDir: string,
+  settings: { plies: number; minGames: number; topGames: number },
+  { skipUnchanged = false, maxShardBytes = MAX_SHARD_BYTES } = {},
+): ExplorerManifest {
+  const { prefixLength, shards } = saveShards(tree, indexesDir, "explorer", {
+    skipUnchanged,
+    maxShardBytes,
+  });
+  return {
+    version: 1,
+    ...settings,
+    prefixLength,
+    totalPositions: Object.keys(tree).length,
+    shards,
+  };
+}
+
+export {
+  buildExplorerMoves,
+  mergeExplorerMoves,
+  loadExplorerCache,
+  saveExplorerCache,
+  buildExplorerTree,
+  saveExplorerTree,
+  EXPLORER_MANIFEST,
+  EXPLORER_CACHE_PATH,
+  DEFAULT_EXPLORER_MIN_GAMES,
+  DEFAULT_EXPLORER_TOP_GAMES,
+};
@@ -1,97 +1,302 @@
 // Game filtering logic for Master Game Database
 // Phase 0 - Foundation
 
+import fs from "fs";
 import type { IChessGame } from "@chess-pgn/chess-pgn";
+import { parseSanMoves, tokenizeMovetext } from "./movetext.js";
+import type {
+  FilterOptions,
+  FilterProfile,
+  FilterProfiles,
+  FilterRule,
+  FilterVerdict,
+  TimeClass,
+} from "./types.js";
+
+export const FILTER_PROFILES_PATH = "./data/filter-profiles.json";
+
+// Grandmaster, International Master, FIDE Master, women's titles,
+// Candidate Master and National Master (some federations)
+const FIDE_TITLES = [
+  "GM",
+  "IM",
+  "FM",
+  "WGM",
+  "WIM",
+  "WFM",
+  "CM",
+  "WCM",
+  "NM",
+  "WNM",
+];
 
 /**
  * Determines if a game should be imported based on filtering criteria:
  * - Standard chess only (no variants)
- * - No FEN setups (must start from standard position)
- * - Optional: Both players must have rating > 2400
- * - Time control must be rapid or slower (>= 600 seconds base time)
- * - Optional: Both players must have FIDE titles (for Lichess)
+ * - No FEN setups (must start from standard position), unless allowFenSetups
+ * - Not unfinished (Result "*")
+ * - The rules of options.profile, or without one the built-in rules:
+ *   both players rated > 2400 (unless requireElo is false), base time
+ *   >= 600 seconds, and both players FIDE-titled when requireTitles is set
  *
  * @param game - Chess game to evaluate (IChessGame or game metadata)
  * @param options - Filtering options (requireTitles for Lichess)
- * @returns true if game should be imported, false otherwise
+ * @param movetext - Movetext for the ply-based rules (minPly, forfeits, short draws); they pass without it
+ * @returns Verdict naming the first rule the game failed, if any
  */
 export function shouldImportGame(
   game: IChessGame | any,
-  options?: { requireTitles?: boolean; requireElo?: boolean },
-): boolean {
+  options?: FilterOptions,
+  movetext?: string,
+): FilterVerdict {
   // Handle both IChessGame (with getHeaders() method) and metadata objects (with .headers property)
   const header =
     typeof (game as any).getHeaders === "function"
       ? (game as IChessGame).getHeaders()
       : (game as any).headers || {};
 
-  // Reject variants (only standard chess)
-  if (header.Variant && header.Variant !== "Standard") {
-    return false;
+  // Set-up positions are opt-in. Lichess labels them Variant "From Position".
+  const fenSetup = !!header.FEN;
+  if (fenSetup && !options?.allowFenSetups) {
+    return reject("fenSetup", `FEN ${header.FEN}`);
   }
 
-  // Reject FEN setups (must start from standard position)
-  if (header.FEN) {
-    return false;
+  // Reject variants (only standard chess)
+  if (
+    header.Variant &&
+    header.Variant !== "Standard" &&
+    !(fenSetup && header.Variant === "From Position")
+  ) {
+    return reject("variant", `Variant ${header.Variant}`);
   }
 
   // Reject games in progress (Result = "*" means unfinished)
   if (header.Result === "*") {
-    return false;
+    return reject("unfinished", "Result *");
   }
 
-  // Optional ELO filter (enabled by default)
-  if (options?.requireElo !== false) {
-    const whiteElo = parseInt(header.WhiteElo || "0");
-    const blackElo = parseInt(header.BlackElo || "0");
+  const failed = options?.profile
+    ? failedFilterRule(header, options.profile, movetext)
+    : failedFilterRule(header, builtInProfile(options), movetext, true);
+  return failed ?? { accepted: true };
+}
+
+function reject(rule: FilterRule, detail: string): FilterVerdict {
+  return { accepted: false, rule, detail };
+}
+
+/**
+ * The rules sources without a profile have always had
+ */
+function builtInProfile(options?: FilterOptions): FilterProfile {
+  return {
+    ...(options?.requireElo !== false ? { elo: { min: 2401 } } : {}),
+    ...(options?.requireTitles ? { titles: {} } : {}),
+    timeControl: { minBaseSeconds: 600 },
+  };
+}
+
+/**
+ * Rejection for the first rule of a profile the game fails, or null when
+ * it passes them all
+ *
+ * @param header - PGN headers
+ * @param profile - Rules to apply
+ * @param movetext - Movetext; rules that count plies are skipped without it
+ * @param builtIn - The built-in rules, whose rating floor reads "> 2400"
+ */
+function failedFilterRule(
+  header: Record<string, string>,
+  profile: FilterProfile,
+  movetext?: string,
+  builtIn = false,
+): FilterVerdict | null {
+  if (profile.elo) {
+    const { min, sides = "both" } = profile.elo;
+    const rated = [header.WhiteElo, header.BlackElo].map(
+      (elo) => parseInt(elo || "0") >= min,
+    );
+    if (sides === "both" ? !rated.every(Boolean) : !rated.some(Boolean)) {
+      const floor = builtIn ? `not > ${min - 1}` : `below ${min}`;
+      return reject(
+        "elo",
+        `WhiteElo ${header.WhiteElo || "-"}, BlackElo ${header.BlackElo || "-"} ${floor} (${sides})`,
+      );
+    }
+  }
 
-    if (whiteElo <= 2400 || blackElo <= 2400) {
-      return false;
+  if (profile.titles) {
+    const { allowed = FIDE_TITLES, sides = "both" } = profile.titles;
+    const titles = new Set(allowed.map((title) => title.toUpperCase()));
+    const titled = [header.WhiteTitle, header.BlackTitle].map((title) =>
+      titles.has((title || "").trim().toUpperCase()),
+    );
+    if (sides === "both" ? !titled.every(Boolean) : !titled.some(Boolean)) {
+      return reject(
+        "titles",
+        `WhiteTitle ${header.WhiteTitle || "-"}, BlackTitle ${header.BlackTitle || "-"} (${sides})`,
+      );
     }
   }
 
-  // Time control must be rapid or slower (>= 600 seconds = 10 minutes)
-  if (header.TimeControl) {
+  if (profile.timeControl && header.TimeControl) {
+    const { minBaseSeconds, classes } = profile.timeControl;
     const baseTime = parseTimeControl(header.TimeControl);
-    if (baseTime !== null && baseTime < 600) {
-      return false;
+    if (
+      minBaseSeconds !== undefined &&
+      baseTime !== null &&
+      baseTime < minBaseSeconds
+    ) {
+      return reject(
+        "timeControl",
+        `TimeControl ${header.TimeControl} (base under ${minBaseSeconds}s)`,
+      );
+    }
+    const timeClass = classifyTimeControl(header.TimeControl);
+    if (classes && timeClass !== "unknown" && !classes.includes(timeClass)) {
+      return reject(
+        "timeControl",
+        `TimeControl ${header.TimeControl} (${timeClass})`,
+      );
     }
   }
 
-  // Optional: Require both players to have FIDE titles (Lichess filtering)
-  if (options?.requireTitles) {
-    const whiteTitle = header.WhiteTitle || "";
-    const blackTitle = header.BlackTitle || "";
+  if (profile.dates && !dateInRange(header.Date, profile.dates)) {
+    return reject("dates", `Date ${header.Date}`);
+  }
 
-    if (!isFideTitle(whiteTitle) || !isFideTitle(blackTitle)) {
-      return false;
+  if (profile.events) {
+    const event = header.Event || "";
+    const { include, exclude } = profile.events;
+    if (
+      include &&
+      !include.some((pattern) => eventPattern(pattern).test(event))
+    ) {
+      return reject("events", `Event "${event}" matches no include pattern`);
+    }
+    const excluded = exclude?.find((pattern) =>
+      eventPattern(pattern).test(event),
+    );
+    if (excluded) {
+      return reject("events", `Event "${event}" matches /${excluded}/`);
     }
   }
 
+  if (profile.excludeForfeits) {
+    const termination = header.Termination || "";
+    if (
+      /forfeit|abandon/i.test(termination) &&
+      !/time forfeit/i.test(termination)
+    ) {
+      return reject("forfeit", `Termination ${termination}`);
+    }
+  }
+
+  if (movetext === undefined) return null;
+  const needsPlies =
+    profile.minPly !== undefined ||
+    profile.excludeForfeits ||
+    profile.shortDrawMoves !== undefined;
+  if (!needsPlies) return null;
+  const plies = parseSanMoves(movetext).length;
+
+  if (profile.excludeForfeits && plies === 0 && header.Result !== "1/2-1/2") {
+    return reject("forfeit", `Result ${header.Result} with no moves`);
+  }
+  if (profile.minPly !== undefined && plies < profile.minPly) {
+    return reject("minPly", `${plies} plies (min ${profile.minPly})`);
+  }
+  if (
+    profile.shortDrawMoves !== undefined &&
+    header.Result === "1/2-1/2" &&
+    plies < profile.shortDrawMoves * 2
+  ) {
+    return reject(
+      "shortDraw",
+      `Draw in ${Math.ceil(plies / 2)} moves (min ${profile.shortDrawMoves})`,
+    );
+  }
+
+  return null;
+}
+
+// Compiled event patterns, shared by every game of a run
+const eventPatterns = new Map<string, RegExp>();
+
+function eventPattern(pattern: string): RegExp {
+  let regex = eventPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, "i");
+    eventPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Whether a PGN date can fall in an inclusive range. Unknown parts are
+ * given the benefit of the doubt ("1990.??.??" is in a range starting
+ * 1990.06.01); a date with no year passes.
+ */
+function dateInRange(
+  date: string | undefined,
+  range: { from?: string; to?: string },
+): boolean {
+  if (!date || !/^\d{4}/.test(date)) return true;
+  const earliest = date.replace(/\?/g, "0");
+  const latest = date.replace(/\?/g, "9");
+  if (range.from && latest < range.from) return false;
+  if (range.to && earliest > range.to) return false;
   return true;
 }
 
 /**
- * Check if a title is a recognized FIDE title.
- * Valid titles: GM, IM, FM, WGM, WIM, WFM, CM, WCM, NM, WNM
+ * Classify a TimeControl header by estimated game length (base + 40 increments):
+ * under 3 minutes bullet, under 8 blitz, under 25 rapid, otherwise classical.
+ * A day or more per period is correspondence.
+ *
+ * @param timeControl - TimeControl header value
+ */
+export function classifyTimeControl(timeControl: string): TimeClass {
+  const baseTime = parseTimeControl(timeControl);
+  if (baseTime === null) return "unknown";
+  if (baseTime >= 86400) return "correspondence";
+
+  const incrementMatch = timeControl.match(/^\d+\+(\d+)/);
+  const estimate =
+    baseTime + 40 * (incrementMatch ? parseInt(incrementMatch[1]) : 0);
+  if (estimate < 180) return "bullet";
+  if (estimate < 480) return "blitz";
+  if (estimate < 1500) return "rapid";
+  return "classical";
+}
+
+// Time classes named in event titles ("Tata Steel Blitz", "ICCF World Cup"),
+// checked in order when a game has no usable TimeControl header
+const EVENT_TIME_CLASSES: [RegExp, TimeClass][] = [
+  [/\b(corr|correspondence|iccf|e-?mail)\b/i, "correspondence"],
+  [/\b(bullet|hyperbullet)\b/i, "bullet"],
+  [/\b(blitz|armageddon|speed)\b/i, "blitz"],
+  [/\b(rapid|rapidplay|active)\b/i, "rapid"],
+  [/\bclassical\b/i, "classical"],
+];
+
+/**
+ * Time class of a game: from its TimeControl header when that parses,
+ * otherwise from words in the event name, otherwise "unknown"
  *
- * @param title - Title string from PGN header
- * @returns true if valid FIDE title
+ * @param timeControl - TimeControl header value, if any
+ * @param event - Event header value
  */
-function isFideTitle(title: string): boolean {
-  const validTitles = [
-    "GM",
-    "IM",
-    "FM", // Grandmaster, International Master, FIDE Master
-    "WGM",
-    "WIM",
-    "WFM", // Women's titles
-    "CM",
-    "WCM", // Candidate Master
-    "NM",
-    "WNM", // National Master (some federations)
-  ];
-  return validTitles.includes(title.trim().toUpperCase());
+export function classifyTimeClass(
+  timeControl: string | undefined,
+  event: string | undefined,
+): TimeClass {
+  const fromHeader = timeControl ? classifyTimeControl(timeControl) : "unknown";
+  if (fromHeader !== "unknown" || !event) return fromHeader;
+  return (
+    EVENT_TIME_CLASSES.find(([pattern]) => pattern.test(event))?.[1] ??
+    "unknown"
+  );
 }
 
 /**
@@ -127,51 +332,108 @@ function parseTimeControl(timeControl: string): number | null {
   return null; // Unparseable - accept these
 }
 
+const PROFILE_KEYS: string[] = [
+  "elo",
+  "titles",
+  "timeControl",
+  "dates",
+  "events",
+  "minPly",
+  "excludeForfeits",
+  "shortDrawMoves",
+] satisfies (keyof FilterProfile)[];
+
 /**
- * Strips annotations from PGN text:
- * - Removes comments {...}
- * - Removes variations (nested parentheses)
- * - Removes NAGs ($1, $2, etc.)
- * - Cleans up whitespace
+ * Check every profile before a run starts: a misspelt rule would otherwise
+ * be ignored, and a bad event pattern would throw for every game (each one
+ * quarantined as a parse error). Valid patterns are compiled here.
  *
- * @param pgn - PGN text with annotations
- * @returns Clean PGN text with only moves
+ * @throws On an unknown rule or an event pattern that doesn't compile
  */
-export function stripAnnotations(pgn: string): string {
-  // Remove comments: {...}
-  let clean = pgn.replace(/\{[^}]*\}/g, "");
-
-  // Remove variations - optimized version (max 10 passes to prevent infinite loops)
-  for (let i = 0; i < 10 && clean.includes("("); i++) {
-    clean = clean.replace(/\([^()]*\)/g, "");
+function validateFilterProfiles(
+  profiles: FilterProfiles["profiles"],
+  profilesPath: string,
+): void {
+  for (const [name, profile] of Object.entries(profiles)) {
+    const unknown = Object.keys(profile).filter(
+      (key) => !PROFILE_KEYS.includes(key),
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Filter profile "${name}" in ${profilesPath} has unknown rules: ${unknown.join(", ")} (expected ${PROFILE_KEYS.join(", ")})`,
+      );
+    }
+    const patterns = [
+      ...(profile.events?.include ?? []),
+      ...(profile.events?.exclude ?? []),
+    ];
+    for (const pattern of patterns) {
+      try {
+        eventPattern(pattern);
+      } catch (error: any) {
+        throw new Error(
+          `Filter profile "${name}" in ${profilesPath} has an invalid event pattern /${pattern}/: ${error.message}`,
+        );
+      }
+    }
   }
+}
 
-  // Remove NAGs: $1, $2, etc.
-  clean = clean.replace(/\$\d+/g, "");
-
-  // Clean up whitespace
-  clean = clean.replace(/\s+/g, " ").trim();
-
-  return clean;
+/**
+ * @throws When a profile is invalid (see validateFilterProfiles)
+ */
+export function loadFilterProfiles(
+  profilesPath = FILTER_PROFILES_PATH,
+): FilterProfiles {
+  if (!fs.existsSync(profilesPath)) return { profiles: {}, sources: {} };
+  const config = JSON.parse(fs.readFileSync(profilesPath, "utf-8"));
+  const profiles = config.profiles ?? {};
+  validateFilterProfiles(profiles, profilesPath);
+  return { profiles, sources: config.sources ?? {} };
 }
 
 /**
- * Recursively removes nested parentheses (variations)
- * Handles arbitrarily deep nesting
+ * A source's filter options with the profile data/filter-profiles.json
+ * selects for it. Sources the file doesn't list are returned unchanged.
  *
- * @deprecated Use stripAnnotations directly (optimized version)
- * @param text - Text containing nested parentheses
- * @returns Text with all parentheses removed
+ * @param sourceId - Adapter id (e.g. "twic", "lichess-elite")
+ * @param options - The adapter's own filter options
+ * @throws When the source names a profile that isn't defined, or a profile
+ *   is invalid
  */
-function removeNestedParentheses(text: string): string {
-  let result = text;
-  let changed = true;
-
-  while (changed) {
-    const before = result;
-    result = result.replace(/\([^()]*\)/g, "");
-    changed = result !== before;
+export function sourceFilterOptions(
+  sourceId: string,
+  options: FilterOptions,
+  profilesPath = FILTER_PROFILES_PATH,
+): FilterOptions {
+  const { profiles, sources } = loadFilterProfiles(profilesPath);
+  const name = sources[sourceId];
+  if (!name) return options;
+  if (!profiles[name]) {
+    throw new Error(
+      `Filter profile "${name}" for source "${sourceId}" is not defined in ${profilesPath}`,
+    );
   }
+  return { ...options, profile: { ...profiles[name], name } };
+}
 
-  return result;
+/**
+ * Strips annotations from PGN text:
+ * - Removes comments ({...} and ;...) and escape lines
+ * - Removes variations (nested parentheses)
+ * - Removes NAGs ($1, $2, etc.) and suffix glyphs (!, ?!, etc.)
+ * - Cleans up whitespace
+ *
+ * @param pgn - PGN text with annotations
+ * @returns Clean PGN text with only tags, move numbers, moves and result
+ */
+export function stripAnnotations(pgn: string): string {
+  return tokenizeMovetext(pgn)
+    .filter(
+      (token) =>
+        token.depth === 0 &&
+        ["tag", "moveNumber", "move", "result"].includes(token.type),
+    )
+    .map((token) => token.value)
+    .join(" ");
 }
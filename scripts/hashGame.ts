@@ -2,22 +2,36 @@
 // Phase 0 - Foundation
 
 import crypto from "crypto";
+import {
+  createPlayerNameResolver,
+  playerHashKey,
+  type PlayerNameResolver,
+} from "./playerNames.js";
+import { parseSanMoves } from "./movetext.js";
+import type { GameMetadata } from "./types.js";
+
+const defaultResolver = createPlayerNameResolver();
 
 /**
  * Normalizes game data to canonical format for hashing
  * Format: event|white|black|date|round
  *
- * - Event, player names: lowercase, trimmed
+ * - Event: lowercase, trimmed
+ * - Player names: canonical key reduced to "surname, initial",
+ *   so "Carlsen, Magnus", "Carlsen,M" and "Magnus Carlsen" hash alike
  * - Date, round: as-is from headers
  *
  * @param headers - Game headers object
+ * @param resolver - Player alias registry (defaults to automatic rules only)
  * @returns Canonical string representation
  */
-export function normalizeGameForHash(headers: any): string {
-  // Normalize to lowercase and trim
+export function normalizeGameForHash(
+  headers: any,
+  resolver: PlayerNameResolver = defaultResolver,
+): string {
   const event = (headers.Event || "").toLowerCase().trim();
-  const white = (headers.White || "").toLowerCase().trim();
-  const black = (headers.Black || "").toLowerCase().trim();
+  const white = playerHashKey(resolver.canonicalKey(headers.White || ""));
+  const black = playerHashKey(resolver.canonicalKey(headers.Black || ""));
   const date = (headers.Date || "").trim();
   const round = (headers.Round || "").trim();
 
@@ -30,9 +44,100 @@ export function normalizeGameForHash(headers: any): string {
  * Deterministic: same game data always produces same hash
  *
  * @param headers - Game headers object
+ * @param resolver - Player alias registry (defaults to automatic rules only)
  * @returns SHA-256 hash (64 hex characters)
  */
-export function hashGame(headers: any): string {
-  const normalized = normalizeGameForHash(headers);
+export function hashGame(
+  headers: any,
+  resolver: PlayerNameResolver = defaultResolver,
+): string {
+  const normalized = normalizeGameForHash(headers, resolver);
   return crypto.createHash("sha256").update(normalized).digest("hex");
 }
+
+/**
+ * Hash format used before player names were canonicalized
+ * (lowercased, trimmed raw names). Games imported earlier are keyed by
+ * this in the deduplication index, so ingest checks it as a fallback.
+ *
+ * @param headers - Game headers object
+ * @returns SHA-256 hash (64 hex characters)
+ */
+export function legacyHashGame(headers: any): string {
+  const event = (headers.Event || "").toLowerCase().trim();
+  const white = (headers.White || "").toLowerCase().trim();
+  const black = (headers.Black || "").toLowerCase().trim();
+  const date = (headers.Date || "").trim();
+  const round = (headers.Round || "").trim();
+
+  return crypto
+    .createHash("sha256")
+    .update(`${event}|${white}|${black}|${date}|${round}`)
+    .digest("hex");
+}
+
+/**
+ * Normalizes a movetext section to bare SAN moves for hashing
+ *
+ * - Main line only (see parseSanMoves)
+ * - Check/mate marks (+, #) removed, since sources disagree on them
+ *
+ * "1. e4 {best by test} e5!? 2. Nf3+ (2. f4) Nc6 1-0" → "e4 e5 Nf3 Nc6"
+ *
+ * @param moves - Movetext as stored on GameMetadata.moves
+ * @returns Space-separated SAN moves
+ */
+export function normalizeMovesForHash(moves: string): string {
+  return parseSanMoves(moves)
+    .map((move) => move.replace(/[+#]+$/, ""))
+    .join(" ");
+}
+
+/**
+ * Generates SHA-256 hash of a game's move sequence plus players.
+ * Catches the same game arriving from two sources with different headers
+ * (event spelling, round numbering), which the header hash misses.
+ *
+ * Format: white|black|moves, players as in the header hash; games from a
+ * set-up position append |startFen (standard games hash as before)
+ *
+ * @param moves - Movetext as stored on GameMetadata.moves
+ * @param white - White header
+ * @param black - Black header
+ * @param resolver - Player alias registry (defaults to automatic rules only)
+ * @param startFen - FEN header of a set-up position game
+ * @returns SHA-256 hash, or undefined for games without moves
+ */
+export function hashMoves(
+  moves: string,
+  white: string,
+  black: string,
+  resolver: PlayerNameResolver = defaultResolver,
+  startFen?: string,
+): string | undefined {
+  const normalized = normalizeMovesForHash(moves);
+  // Forfeits and empty games would all collide per pairing
+  if (normalized === "") return undefined;
+
+  const w = playerHashKey(resolver.canonicalKey(white));
+  const b = playerHashKey(resolver.canonicalKey(black));
+  return crypto
+    .createHash("sha256")
+    .update(`${w}|${b}|${normalized}${startFen ? `|${startFen}` : ""}`)
+    .digest("hex");
+}
+
+/**
+ * Move hash of a saved game. Games saved before move hashing have none
+ * stored, so it is computed from their moves (and start position, as
+ * processGame does).
+ */
+export function gameMovesHash(
+  game: GameMetadata,
+  resolver: PlayerNameResolver = defaultResolver,
+): string | undefined {
+  return (
+    game.movesHash ??
+    hashMoves(game.moves || "", game.white, game.black, resolver, game.startFen)
+  );
+}
@@ -0,0 +1,204 @@
+// Import PGN collections from local disk (event bulletins, purchased databases)
+// Accepts .pgn, .zip, .pgn.gz, .pgn.zst and .pgn.bz2 files, or directories
+// containing them
+//
+// Usage:
+//   npm run import:local -- --collection "Bulletins 2024" ./path/to/dir file.pgn
+//   npm run import:local -- --collection "Club DB" --no-elo ./club.zip
+//
+// The workflow server passes LOCAL_IMPORT_PATHS / LOCAL_IMPORT_COLLECTION instead.
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath, pathToFileURL } from "url";
+import { runIngest, readPgnFile } from "./ingest.js";
+import type { SourceAdapter, SourceFile } from "./types.js";
+
+const SUPPORTED_EXTENSIONS = [
+  ".pgn",
+  ".zip",
+  ".pgn.gz",
+  ".pgn.zst",
+  ".pgn.bz2",
+];
+
+interface LocalFile {
+  filePath: string; // Absolute
+  relativePath: string; // From the input path it was found under, "/"-separated
+}
+
+interface LocalImportOptions {
+  paths: string[];
+  collection: string;
+  requireElo?: boolean;
+}
+
+function isSupportedFile(filePath: string): boolean {
+  const lower = filePath.toLowerCase();
+  return SUPPORTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/**
+ * Expand the given files/directories into a sorted list of supported files.
+ * A file given directly is relative to its own folder, so its relative path
+ * is its name; files found in a directory keep their subfolders.
+ */
+function expandPaths(inputPaths: string[]): LocalFile[] {
+  const found = new Map<string, string>();
+
+  const visit = (p: string, root: string) => {
+    const stat = fs.statSync(p);
+    if (stat.isDirectory()) {
+      for (const entry of fs.readdirSync(p)) {
+        visit(path.join(p, entry), root);
+      }
+    } else if (isSupportedFile(p)) {
+      const filePath = path.resolve(p);
+      if (!found.has(filePath)) {
+        found.set(
+          filePath,
+          path.relative(root, filePath).split(path.sep).join("/"),
+        );
+      }
+    }
+  };
+
+  for (const p of inputPaths) {
+    if (!fs.existsSync(p)) {
+      throw new Error(`Path not found: ${p}`);
+    }
+    const resolved = path.resolve(p);
+    visit(
+      resolved,
+      fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved),
+    );
+  }
+
+  return [...found]
+    .map(([filePath, relativePath]) => ({ filePath, relativePath }))
+    .sort((a, b) => a.filePath.localeCompare(b.filePath));
+}
+
+/**
+ * SHA-256 of a file, read as a stream (dumps can be several GB)
+ */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(hash.digest("hex")));
+  });
+}
+
+/**
+ * Build a SourceAdapter over local files.
+ *
+ * Files are tracked as "<collection>/<path relative to the input path>",
+ * which is also the sourceFile stored on every imported game, so same-named
+ * files in different subfolders stay apart. A content hash is recorded so
+ * re-importing an unchanged file is a no-op.
+ */
+function createLocalAdapter(options: LocalImportOptions): SourceAdapter {
+  const { paths, collection, requireElo = true } = options;
+
+  return {
+    id: "local",
+    trackingKey: "local",
+    label: `local collection "${collection}"`,
+    throttleMs: 0,
+    // Local collections: no title requirement, ELO filter unless disabled
+    filterOptions: { requireTitles: false, requireElo },
+    inputs: {
+      collection,
+      paths: paths.map((p) => path.resolve(p)).sort(),
+      requireElo,
+    },
+
+    async discover() {
+      const files: SourceFile[] = [];
+      for (const { filePath, relativePath } of expandPaths(paths)) {
+        files.push({
+          filename: `${collection}/${relativePath}`,
+          url: pathToFileURL(filePath).href,
+          contentHash: await hashFile(filePath),
+        });
+      }
+      console.log(`📂 Found ${files.length} PGN files\n`);
+      return files;
+    },
+
+    // Changed = never tracked, or content differs from the tracked import
+    async checkForChanges(files, tracking) {
+      return files.filter(
+        (f) => tracking.files[f.filename]?.contentHash !== f.contentHash,
+      );
+    },
+
+    // Files are already on disk - no download step
+    async fetch(file) {
+      const localPath = fileURLToPath(file.url);
+      return fs.existsSync(localPath) ? localPath : null;
+    },
+
+    // Format is detected from magic bytes, not the extension
+    readPgn: readPgnFile,
+  };
+}
+
+/**
+ * Parse CLI args, falling back to LOCAL_IMPORT_* env vars
+ */
+function parseArgs(argv: string[]): LocalImportOptions {
+  const paths: string[] = [];
+  let collection = process.env.LOCAL_IMPORT_COLLECTION || "";
+  let requireElo = process.env.LOCAL_IMPORT_SKIP_ELO !== "true";
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--collection") {
+      collection = argv[++i] || "";
+    } else if (argv[i] === "--no-elo") {
+      requireElo = false;
+    } else {
+      paths.push(argv[i]);
+    }
+  }
+
+  if (paths.length === 0 && process.env.LOCAL_IMPORT_PATHS) {
+    paths.push(
+      ...process.env.LOCAL_IMPORT_PATHS.split(path.delimiter).filter(Boolean),
+    );
+  }
+
+  if (paths.length === 0) {
+    throw new Error("No input paths given (files or directories)");
+  }
+  if (!collection.trim()) {
+    throw new Error("A collection name is required (--collection <name>)");
+  }
+
+  return { paths, collection: collection.trim(), requireElo };
+}
+
+async function importLocal(options: LocalImportOptions): Promise<void> {
+  await runIngest(createLocalAdapter(options));
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  Promise.resolve()
+    .then(() => importLocal(parseArgs(process.argv.slice(2))))
+    .then(() => {
+      console.log("✅ Local import complete!");
+      // Explicit exit to ensure process terminates cleanly
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Failed:", error);
+      process.exit(1);
+    });
+}
+
+export { importLocal, createLocalAdapter, expandPaths };
@@ -0,0 +1,237 @@
+// Incremental index merging
+// A full build regroups every game into every search index. When only a
+// few hundred games were added, buildIndexes instead compares each game's
+// index-relevant fields with the fingerprints saved by the previous build,
+// and merges just the new and changed games into the existing index files.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type {
+  GameMetadata,
+  IndexBuildState,
+  OpeningByNameIndex,
+} from "./types.js";
+
+// Local build bookkeeping: kept out of data/indexes, which is uploaded
+const INDEX_BUILD_STATE_PATH = "./data/index-cache/index-build-state.json";
+// Where builds before INDEX_BUILD_STATE_PATH kept it (removed on the next build)
+const LEGACY_INDEX_BUILD_STATE_FILE = "index-build-state.json";
+// Bumped when the fingerprinted fields change; older states are ignored
+const INDEX_BUILD_STATE_VERSION = 3;
+
+/**
+ * Which games differ from the previous build, matched by hash since idx is
+ * not unique. The indexes list game ids, so every id a changed or removed
+ * game had is removed everywhere, and every game now at one of those ids
+ * is added again, unchanged games that share the id included.
+ */
+interface GameDiff {
+  added: GameMetadata[]; // New and changed games and those sharing their ids, by idx
+  removedIds: Set<number>; // Ids of changed and removed games, and ids new games now share
+  removedHashes: Set<string>; // Changed games and games no longer in chunks
+  newGames: number;
+  changedGames: number;
+  removedGames: number;
+}
+
+/**
+ * Short hash of the fields that feed the search indexes, moves included
+ * for the position index
+ */
+function gameFingerprint(game: GameMetadata): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        game.hash,
+        game.white,
+        game.black,
+        game.event,
+        game.site,
+        game.date,
+        game.round,
+        game.eco,
+        game.ecoJsonFen,
+        game.ecoJsonOpening,
+        game.ecoJsonEco,
+        game.startFen,
+        game.timeClass,
+        game.moves,
+      ]),
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function indexBuildState(games: GameMetadata[]): IndexBuildState {
+  const fingerprints: IndexBuildState["fingerprints"] = {};
+  for (const game of games) {
+    fingerprints[game.hash] = [game.idx, gameFingerprint(game)];
+  }
+  return {
+    version: INDEX_BUILD_STATE_VERSION,
+    builtAt: new Date().toISOString(),
+    fingerprints,
+  };
+}
+
+function loadIndexBuildState(
+  statePath = INDEX_BUILD_STATE_PATH,
+): IndexBuildState | null {
+  if (!fs.existsSync(statePath)) return null;
+  const state: IndexBuildState = JSON.parse(
+    fs.readFileSync(statePath, "utf-8"),
+  );
+  return state.version === INDEX_BUILD_STATE_VERSION ? state : null;
+}
+
+function saveIndexBuildState(
+  state: IndexBuildState,
+  statePath = INDEX_BUILD_STATE_PATH,
+): void {
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  const tmpPath = `${statePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state));
+  fs.renameSync(tmpPath, statePath);
+}
+
+/**
+ * Compare games against the previous build's fingerprints
+ */
+function diffGames(games: GameMetadata[], state: IndexBuildState): GameDiff {
+  const previousIds = new Set<number>();
+  for (const [idx] of Object.values(state.fingerprints)) previousIds.add(idx);
+
+  const removedIds = new Set<number>();
+  const removedHashes = new Set<string>();
+  const present = new Set<string>();
+  let newGames = 0;
+  let changedGames = 0;
+
+  for (const game of games) {
+    present.add(game.hash);
+    const previous = state.fingerprints[game.hash];
+    if (!previous) {
+      newGames++;
+      // Ordered among the games already at this id as a full build would
+      if (previousIds.has(game.idx)) removedIds.add(game.idx);
+    } else if (
+      previous[0] !== game.idx ||
+      previous[1] !== gameFingerprint(game)
+    ) {
+      changedGames++;
+      removedHashes.add(game.hash);
+      removedIds.add(previous[0]);
+      if (previousIds.has(game.idx)) removedIds.add(game.idx);
+    }
+  }
+  let removedGames = 0;
+  for (const [hash, [idx]] of Object.entries(state.fingerprints)) {
+    if (present.has(hash)) continue;
+    removedGames++;
+    removedHashes.add(hash);
+    removedIds.add(idx);
+  }
+
+  const added = games.filter(
+    (game) =>
+      !state.fingerprints[game.hash] ||
+      removedHashes.has(game.hash) ||
+      removedIds.has(game.idx),
+  );
+  added.sort((a, b) => a.idx - b.idx);
+  return {
+    added,
+    removedIds,
+    removedHashes,
+    newGames,
+    changedGames,
+    removedGames,
+  };
+}
+
+/**
+ * Insert into an ascending id list (full builds add games in idx order)
+ */
+function insertSortedId<T extends number | string>(ids: T[], id: T): void {
+  let low = 0;
+  let high = ids.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ids[mid] < id) low = mid + 1;
+    else high = mid;
+  }
+  if (ids[low] !== id) ids.splice(low, 0, id);
+}
+
+/**
+ * Merge a key → game ids index in place; keys left without games are dropped
+ */
+function mergeIdListIndex(
+  index: { [key: string]: number[] },
+  keyOf: (game: GameMetadata) => string | undefined,
+  diff: GameDiff,
+): void {
+  if (diff.removedIds.size > 0) {
+    for (const [key, ids] of Object.entries(index)) {
+      const kept = ids.filter((idx) => !diff.removedIds.has(idx));
+      if (kept.length > 0) index[key] = kept;
+      else delete index[key];
+    }
+  }
+  for (const game of diff.added) {
+    const key = keyOf(game);
+    if (key === undefined) continue;
+    if (!index[key]) index[key] = [];
+    insertSortedId(index[key], game.idx);
+  }
+}
+
+function mergeOpeningByNameIndex(
+  index: OpeningByNameIndex,
+  diff: GameDiff,
+): void {
+  if (diff.removedIds.size > 0) {
+    for (const [name, entry] of Object.entries(index)) {
+      entry.gameIds = entry.gameIds.filter((idx) => !diff.removedIds.has(idx));
+      if (entry.gameIds.length === 0) delete index[name];
+    }
+  }
+  for (const game of diff.added) {
+    const { ecoJsonOpening: name, ecoJsonFen: fen, ecoJsonEco: eco } = game;
+    if (!name || !fen || !eco) continue;
+    if (!index[name]) index[name] = { fen, eco, gameIds: [] };
+    insertSortedId(index[name].gameIds, game.idx);
+  }
+}
+
+/**
+ * game-to-players.json is an array by idx; JSON turns its gaps into null
+ */
+function mergeGameToPlayers(
+  index: ([string, string] | null)[],
+  diff: GameDiff,
+): ([string, string] | null)[] {
+  for (const idx of diff.removedIds) index[idx] = null;
+  for (const game of diff.added) {
+    index[game.idx] = [game.white || "Unknown", game.black || "Unknown"];
+  }
+  while (index.length > 0 && index[index.length - 1] == null) index.pop();
+  return Array.from(index, (players) => players ?? null);
+}
+
+export {
+  gameFingerprint,
+  indexBuildState,
+  loadIndexBuildState,
+  saveIndexBuildState,
+  diffGames,
+  insertSortedId,
+  mergeIdListIndex,
+  mergeOpeningByNameIndex,
+  mergeGameToPlayers,
+  INDEX_BUILD_STATE_PATH,
+  LEGACY_INDEX_BUILD_STATE_FILE,
+};
+export type { GameDiff };
@@ -0,0 +1,1581 @@
+// Shared ingest engine for all game sources
+// Source-specific behavior lives in SourceAdapter implementations
+// (downloadPgnmentor.ts, downloadLichess.ts, downloadTWIC.ts)
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { PassThrough, Readable, Transform, pipeline } from "stream";
+import { pipeline as pipelineAsync } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+import AdmZip from "adm-zip";
+import yauzl from "yauzl";
+import { Decompress as ZstdDecompress } from "fzstd";
+import bz2 from "unbzip2-stream";
+import {
+  classifyTimeClass,
+  shouldImportGame,
+  sourceFilterOptions,
+} from "./filterGame.js";
+import {
+  gameMovesHash,
+  hashGame,
+  hashMoves,
+  legacyHashGame,
+} from "./hashGame.js";
+import {
+  createPlayerNameResolver,
+  loadPlayerAliases,
+  type PlayerNameResolver,
+} from "./playerNames.js";
+import { splitPgnGames } from "./pgnStream.js";
+import { extractMoveAnnotations } from "./movetext.js";
+import { createDedupRecorder, saveDedupReport } from "./dedupReport.js";
+import {
+  appendQuarantine,
+  quarantineId,
+  QUARANTINE_PATH,
+} from "./quarantine.js";
+import { indexPgnGames } from "@chess-pgn/chess-pgn";
+import type {
+  AnnotationsFile,
+  GameMetadata,
+  DeduplicationIndex,
+  DedupPolicy,
+  DuplicateRecord,
+  FilterOptions,
+  IngestStats,
+  MoveAnnotations,
+  PgnText,
+  QuarantineEntry,
+  RejectionCounts,
+  RejectionReason,
+  RunJournal,
+  RunInputs,
+  SourceAdapter,
+  SourceFile,
+  SourceTracking,
+  SiteSourceTracking,
+} from "./types.js";
+
+const DOWNLOAD_DIR = "./data/pgn-downloads";
+const INDEXES_DIR = path.join(DOWNLOAD_DIR, "..", "indexes");
+const SOURCE_TRACKING_PATH = path.join(INDEXES_DIR, "source-tracking.json");
+const HTTP_CACHE_PATH = path.join(DOWNLOAD_DIR, "http-cache.json");
+const CHUNK_SIZE = 4000;
+const USER_AGENT =
+  "Fenster Chess Opening Explorer (https://fensterchess.com) - Educational research project";
+
+/**
+ * A positive integer from the environment; unset or invalid values fall
+ * back to the default
+ */
+function envPositiveInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  if (Number.isInteger(value) && value > 0) return value;
+  console.warn(
+    `⚠️  Ignoring ${name}="${raw}" (expected a positive integer), using ${fallback}`,
+  );
+  return fallback;
+}
+
+// Politeness limits for source sites (override via env)
+const HTTP_CONCURRENCY = envPositiveInt("HTTP_CONCURRENCY", 4);
+const HTTP_RETRIES = envPositiveInt("HTTP_RETRIES", 3);
+// First retry waits this long, doubling after each further failure
+const RETRY_BASE_DELAY_MS = 2000;
+const NEAR_DUPLICATE_LOG_LIMIT = 20;
+
+// Which hash wins when header and move hashes disagree (see DedupPolicy)
+const DEDUP_POLICIES: DedupPolicy[] = ["either", "headers", "moves"];
+const DEDUP_POLICY = (process.env.DEDUP_POLICY || "either") as DedupPolicy;
+if (!DEDUP_POLICIES.includes(DEDUP_POLICY)) {
+  throw new Error(
+    `Invalid DEDUP_POLICY "${DEDUP_POLICY}" (expected ${DEDUP_POLICIES.join(", ")})`,
+  );
+}
+
+// Keep [%clk] / [%eval] values in annotations-<chunkId>.json side files
+const KEEP_ANNOTATIONS = process.env.KEEP_ANNOTATIONS === "true";
+
+// Import set-up position games (FEN header) for every source
+const ALLOW_FEN_SETUPS = process.env.ALLOW_FEN_SETUPS === "true";
+
+type LastChunk = { id: number; games: GameMetadata[] } | null;
+
+/**
+ * Validators for a previously downloaded URL, keyed by URL in http-cache.json
+ */
+interface HttpCacheEntry {
+  path: string; // Local copy of the last 200 response
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: string;
+}
+
+type HttpCache = { [url: string]: HttpCacheEntry };
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Map over items with at most `limit` calls in flight; results keep input order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+function loadHttpCache(): HttpCache {
+  if (!fs.existsSync(HTTP_CACHE_PATH)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(HTTP_CACHE_PATH, "utf-8"));
+}
+
+function saveHttpCache(cache: HttpCache): void {
+  fs.mkdirSync(path.dirname(HTTP_CACHE_PATH), { recursive: true });
+  writeJsonAtomic(HTTP_CACHE_PATH, cache);
+}
+
+/**
+ * Rate limiting and server errors are worth retrying; other HTTP errors
+ * (404, 403, ...) are not
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Download url to outputPath with a conditional GET.
+ * If the URL was downloaded before and its cached copy still exists,
+ * If-None-Match / If-Modified-Since are sent and a 304 reuses the copy.
+ * Network errors, 429 and 5xx responses are retried with exponential
+ * backoff; a Retry-After header in seconds is honored when it is longer.
+ */
+async function downloadFile(
+  url: string,
+  outputPath: string,
+  retries = HTTP_RETRIES,
+  baseDelayMs = RETRY_BASE_DELAY_MS,
+): Promise<boolean> {
+  const cache = loadHttpCache();
+  const cached = cache[url];
+  const cachedPath =
+    cached && fs.existsSync(cached.path) ? cached.path : undefined;
+
+  const headers: Record<string, string> = { "User-Agent": USER_AGENT };
+  if (cachedPath && cached.etag) headers["If-None-Match"] = cached.etag;
+  if (cachedPath && cached.lastModified) {
+    headers["If-Modified-Since"] = cached.lastModified;
+  }
+
+  // Write via a temp file so a cut-off download is never cached
+  const partPath = `${outputPath}.part`;
+  let retryAfterMs = 0;
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      if (attempt > 1) {
+        const delay = Math.max(baseDelayMs * 2 ** (attempt - 2), retryAfterMs);
+        retryAfterMs = 0;
+        console.log(
+          `  ⏳ Retry ${attempt}/${retries} after ${delay / 1000}s...`,
+        );
+        await sleep(delay);
+      } else {
+        console.log(`  Downloading: ${url}`);
+      }
+
+      const response = await fetch(url, { headers });
+
+      if (response.status === 304 && cachedPath) {
+        if (path.resolve(cachedPath) !== path.resolve(outputPath)) {
+          fs.copyFileSync(cachedPath, outputPath);
+        }
+        console.log(`  ♻️  Not modified - using cached copy`);
+        return true;
+      }
+
+      if (!response.ok) {
+        if (isRetryableStatus(response.status) && attempt < retries) {
+          const retryAfter = Number(response.headers.get("retry-after"));
+          if (retryAfter > 0) retryAfterMs = retryAfter * 1000;
+          await response.body?.cancel();
+          console.error(
+            `  ⚠️  HTTP ${response.status}: ${response.statusText}, will retry...`,
+          );
+          continue;
+        }
+        console.error(`  ❌ HTTP ${response.status}: ${response.statusText}`);
+        return false;
+      }
+
+      // Streamed to disk, so memory stays flat however large the file is
+      if (response.body) {
+        await pipelineAsync(
+          Readable.fromWeb(response.body as ReadableStream),
+          fs.createWriteStream(partPath),
+        );
+      } else {
+        fs.writeFileSync(partPath, "");
+      }
+      const bytes = fs.statSync(partPath).size;
+      fs.renameSync(partPath, outputPath);
+
+      cache[url] = {
+        path: outputPath,
+        etag: response.headers.get("etag") || undefined,
+        lastModified: response.headers.get("last-modified") || undefined,
+        fetchedAt: new Date().toISOString(),
+      };
+      saveHttpCache(cache);
+
+      console.log(`  ✅ Downloaded: ${(bytes / 1024 / 1024).toFixed(2)} MB`);
+      return true;
+    } catch (error: any) {
+      fs.rmSync(partPath, { force: true });
+      const isTransient =
+        error?.cause?.code === "ECONNRESET" ||
+        error?.cause?.code === "ECONNREFUSED" ||
+        error?.cause?.code === "ETIMEDOUT" ||
+        error?.code === "ECONNRESET";
+
+      if (isTransient && attempt < retries) {
+        console.error(
+          `  ⚠️  Network error (${error?.cause?.code ?? error?.code}), will retry...`,
+        );
+      } else {
+        console.error(`  ❌ Download failed:`, error);
+        return false;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Default SourceAdapter.fetch: download file.url to the shared download dir
+ */
+async function fetchToDownloadDir(file: SourceFile): Promise<string | null> {
+  if (!fs.existsSync(DOWNLOAD_DIR)) {
+    fs.mkdirSync(DOWNLOAD_DIR, { recursive: true });
+  }
+  const outputPath = path.join(DOWNLOAD_DIR, file.filename);
+  return (await downloadFile(file.url, outputPath)) ? outputPath : null;
+}
+
+/**
+ * Whether a ZIP entry is a PGN file, in any folder of the archive
+ */
+function isZipPgnEntry(entryName: string): boolean {
+  return (
+    entryName.toLowerCase().endsWith(".pgn") &&
+    // macOS resource forks (__MACOSX/._name.pgn) are not PGN
+    !entryName.startsWith("__MACOSX/")
+  );
+}
+
+/**
+ * Every PGN entry in a ZIP, including entries in nested folders.
+ * Entries are sorted by their path in the archive so game ids are stable.
+ */
+function listZipPgnEntries(zip: AdmZip): AdmZip.IZipEntry[] {
+  const pgnEntries = zip
+    .getEntries()
+    .filter((entry) => !entry.isDirectory && isZipPgnEntry(entry.entryName));
+  return pgnEntries.sort((a, b) => a.entryName.localeCompare(b.entryName));
+}
+
+/**
+ * Extract every PGN entry in a ZIP as text
+ */
+function extractZip(
+  zipPath: string,
+): { entryName: string; pgn: string }[] | null {
+  try {
+    const zip = new AdmZip(zipPath);
+    const pgnEntries = listZipPgnEntries(zip);
+
+    if (pgnEntries.length === 0) {
+      console.error("  ❌ No PGN file found in ZIP");
+      return null;
+    }
+
+    return pgnEntries.map((entry) => {
+      console.log(`  📦 Extracting: ${entry.entryName}`);
+      return { entryName: entry.entryName, pgn: zip.readAsText(entry) };
+    });
+  } catch (error) {
+    console.error(`  ❌ Extraction failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Default SourceAdapter.readPgn for ZIP-distributed sources.
+ * Only the central directory is read up front; each entry is then inflated
+ * as a stream straight from the file, so neither the archive nor an entry
+ * is ever held in memory whole. Entries are sorted by their path in the
+ * archive so game ids are stable.
+ */
+async function* readZipPgn(zipPath: string): AsyncIterable<PgnText> {
+  const zip = await yauzl.openPromise(zipPath, {
+    lazyEntries: true,
+    autoClose: false,
+  });
+  try {
+    const pgnEntries: yauzl.Entry[] = [];
+    for await (const entry of zip.eachEntry()) {
+      if (isZipPgnEntry(entry.fileName)) pgnEntries.push(entry);
+    }
+    pgnEntries.sort((a, b) => a.fileName.localeCompare(b.fileName));
+
+    if (pgnEntries.length === 0) {
+      console.error("  ❌ No PGN file found in ZIP");
+      return;
+    }
+
+    for (const entry of pgnEntries) {
+      console.log(`  📦 Extracting: ${entry.fileName}`);
+      yield {
+        entryName: entry.fileName,
+        stream: await zip.openReadStreamPromise(entry),
+      };
+    }
+  } finally {
+    // Closes the file once the last entry stream has finished
+    zip.close();
+  }
+}
+
+type Compression = "zip" | "gzip" | "zstd" | "bzip2" | "none";
+
+/**
+ * Detect a file's container/compression format from its magic bytes
+ * (file extensions from third-party dumps are not trusted)
+ */
+function detectCompression(filePath: string): Compression {
+  const header = Buffer.alloc(4);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    fs.readSync(fd, header, 0, 4, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  if (header[0] === 0x50 && header[1] === 0x4b) return "zip"; // PK
+  if (header[0] === 0x1f && header[1] === 0x8b) return "gzip";
+  if (header.readUInt32LE(0) === 0xfd2fb528) return "zstd";
+  if (header.toString("latin1", 0, 3) === "BZh") return "bzip2";
+  return "none";
+}
+
+/**
+ * Stream transform wrapping fzstd's streaming decompressor
+ */
+function createZstdDecompress(): Transform {
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        decompressor.push(chunk);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        decompressor.push(new Uint8Array(0), true);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+  const decompressor = new ZstdDecompress((data) => {
+    transform.push(Buffer.from(data));
+  });
+  return transform;
+}
+
+/**
+ * Open a (possibly compressed) PGN file as a stream of decompressed bytes
+ */
+function openPgnStream(filePath: string, compression: Compression): Readable {
+  const input = fs.createReadStream(filePath);
+
+  let decompressor: NodeJS.ReadWriteStream;
+  switch (compression) {
+    case "gzip":
+      decompressor = zlib.createGunzip();
+      break;
+    case "zstd":
+      decompressor = createZstdDecompress();
+      break;
+    case "bzip2":
+      decompressor = bz2();
+      break;
+    default:
+      return input;
+  }
+
+  // pipeline() destroys every stage - including the returned stream - on
+  // error; the PassThrough makes classic streams (unbzip2) async iterable
+  return pipeline(input, decompressor, new PassThrough(), () => {});
+}
+
+/**
+ * readPgn for single PGN files, plain or compressed (.pgn, .pgn.gz,
+ * .pgn.zst, .pgn.bz2). ZIP archives are handed to readZipPgn.
+ */
+async function* readPgnFile(filePath: string): AsyncIterable<PgnText> {
+  const compression = detectCompression(filePath);
+  if (compression === "zip") {
+    yield* readZipPgn(filePath);
+    return;
+  }
+
+  if (compression !== "none") {
+    console.log(`  📦 Decompressing (${compression})...`);
+  }
+  yield { stream: openPgnStream(filePath, compression) };
+}
+
+/**
+ * GameMetadata.sourceFile for a game: the source file, plus the archive
+ * entry when it came from inside an archive, e.g. "Carlsen.zip:Carlsen.pgn"
+ */
+function entrySourceFile(filename: string, entryName?: string): string {
+  return entryName ? `${filename}:${entryName}` : filename;
+}
+
+/**
+ * Per-source ingest options for processGames
+ */
+interface ProcessGamesOptions {
+  source: string;
+  filterOptions: FilterOptions;
+  playerNames?: PlayerNameResolver; // Alias registry for the dedup hash
+  dedupPolicy?: DedupPolicy; // Defaults to DEDUP_POLICY
+  duplicates?: { push(record: DuplicateRecord): void }; // Collects every rejected duplicate for the run's dedup report
+  quarantine?: { runId: string; entries: QuarantineEntry[] }; // Collects games that failed to parse
+  annotations?: Map<string, MoveAnnotations>; // Collects clock/eval data by game hash when set
+}
+
+function emptyDeduplicationIndex(): DeduplicationIndex {
+  return { headers: {}, moves: {} };
+}
+
+/**
+ * Add a saved game to the dedup index; the first game with a move hash
+ * keeps it
+ */
+function addToDeduplicationIndex(
+  index: DeduplicationIndex,
+  game: GameMetadata,
+  playerNames?: PlayerNameResolver,
+): void {
+  if (game.hash) {
+    index.headers[game.hash] = game.idx;
+  }
+  const movesHash = gameMovesHash(game, playerNames);
+  if (movesHash && index.moves[movesHash] === undefined) {
+    index.moves[movesHash] = game.idx;
+  }
+}
+
+function emptyStats(): IngestStats {
+  return { total: 0, accepted: 0, rejected: 0, duplicates: 0, quarantined: 0 };
+}
+
+function addStats(into: IngestStats, stats: IngestStats): void {
+  into.total += stats.total;
+  into.accepted += stats.accepted;
+  into.rejected += stats.rejected;
+  into.duplicates += stats.duplicates;
+  into.quarantined = (into.quarantined ?? 0) + (stats.quarantined ?? 0);
+  for (const [reason, count] of Object.entries(stats.rejections ?? {})) {
+    countRejection(into, reason as RejectionReason, count);
+  }
+}
+
+/**
+ * Count a rejected game under its reason; stats only carry the
+ * breakdown once something was rejected
+ */
+function countRejection(
+  stats: IngestStats,
+  reason: RejectionReason,
+  count = 1,
+): void {
+  stats.rejections ??= {};
+  stats.rejections[reason] = (stats.rejections[reason] ?? 0) + count;
+}
+
+function formatRejections(rejections: RejectionCounts): string {
+  return Object.entries(rejections)
+    .sort(([, a], [, b]) => b - a)
+    .map(([reason, count]) => `${reason} ${count}`)
+    .join(", ");
+}
+
+/**
+ * Count a game that failed to parse as rejected, and keep its raw PGN
+ * in the run's quarantine list when one is being collected
+ */
+function quarantineGame(
+  gameText: string,
+  sourceFile: string,
+  line: number,
+  reason: string,
+  options: ProcessGamesOptions,
+  stats: IngestStats,
+): void {
+  stats.rejected++;
+  countRejection(stats, "parseError");
+  if (!options.quarantine) return;
+  stats.quarantined = (stats.quarantined ?? 0) + 1;
+  const pgn = gameText.trim();
+  options.quarantine.entries.push({
+    id: quarantineId("ingest", pgn),
+    stage: "ingest",
+    reason,
+    runId: options.quarantine.runId,
+    source: options.source,
+    sourceFile,
+    line,
+    filterOptions: options.filterOptions,
+    pgn,
+    quarantinedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Filter, dedup and build metadata for a single game's PGN text.
+ * Updates stats; returns null when the game is rejected or a duplicate.
+ * `line` is where the game starts in its source PGN (for quarantine entries).
+ */
+function processGame(
+  gameText: string,
+  sourceFile: string,
+  deduplicationIndex: DeduplicationIndex,
+  gameIndex: number,
+  options: ProcessGamesOptions,
+  stats: IngestStats,
+  line = 0,
+): GameMetadata | null {
+  stats.total++;
+
+  try {
+    // Parse headers (the game boundary is already known)
+    const [gameMetadata] = indexPgnGames(gameText);
+    const headers = gameMetadata?.headers;
+
+    if (!headers) {
+      quarantineGame(
+        gameText,
+        sourceFile,
+        line,
+        "No PGN headers found",
+        options,
+        stats,
+      );
+      return null;
+    }
+
+    // Extract just the moves section (not headers)
+    const pgnChunk = gameText.slice(
+      gameMetadata.startOffset,
+      gameMetadata.endOffset,
+    );
+
+    // Strip headers - find where moves start (after last header line and blank line)
+    const movesSectionMatch = pgnChunk.match(/\n\n(.+)/s);
+    const movesOnly = movesSectionMatch
+      ? movesSectionMatch[1].trim()
+      : pgnChunk;
+
+    // Apply filtering (site-specific rules come from the adapter or its profile)
+    // Note: shouldImportGame() handles metadata objects with .headers property
+    const verdict = shouldImportGame(
+      gameMetadata,
+      options.filterOptions,
+      movesOnly,
+    );
+    if (!verdict.accepted) {
+      stats.rejected++;
+      countRejection(stats, verdict.rule);
+      return null;
+    }
+
+    // Check for duplicates by header hash and by move-content hash.
+    // Games imported before name canonicalization are keyed by the legacy hash.
+    let hash = hashGame(headers, options.playerNames);
+    const movesHash = hashMoves(
+      movesOnly,
+      headers.White || "",
+      headers.Black || "",
+      options.playerNames,
+      headers.FEN,
+    );
+    const legacyHash = legacyHashGame(headers);
+    const matchedHash =
+      deduplicationIndex.headers[hash] !== undefined
+        ? hash
+        : deduplicationIndex.headers[legacyHash] !== undefined
+          ? legacyHash
+          : undefined;
+    const headerMatch =
+      matchedHash !== undefined
+        ? deduplicationIndex.headers[matchedHash]
+        : undefined;
+    const movesMatch = movesHash
+      ? deduplicationIndex.moves[movesHash]
+      : undefined;
+    const policy = options.dedupPolicy ?? DEDUP_POLICY;
+
+    const recordDuplicate = (
+      kind: DuplicateRecord["kind"],
+      existingIdx: number,
+    ) => {
+      stats.duplicates++;
+      options.duplicates?.push({
+        kind,
+        sourceFile,
+        existingIdx,
+        existingHash: matchedHash,
+        movesHash,
+        incoming: {
+          white: headers.White || "Unknown",
+          black: headers.Black || "Unknown",
+          event: headers.Event || "Unknown",
+          site: headers.Site || "?",
+          date: headers.Date || "????.??.??",
+          round: headers.Round,
+          result: headers.Result || "*",
+        },
+      });
+    };
+
+    if (headerMatch === undefined && movesMatch !== undefined) {
+      // Near-duplicate: same game under different headers
+      if (policy !== "headers") {
+        recordDuplicate("near-duplicate", movesMatch);
+        return null;
+      }
+    } else if (headerMatch !== undefined) {
+      // Same headers with different moves is a different game under "moves"
+      const collision = movesHash !== undefined && movesMatch === undefined;
+      if (!collision || policy !== "moves") {
+        recordDuplicate(collision ? "header-collision" : "exact", headerMatch);
+        return null;
+      }
+      // hash must stay unique per game
+      hash = crypto
+        .createHash("sha256")
+        .update(`${hash}|${movesHash}`)
+        .digest("hex");
+    }
+
+    const metadata: GameMetadata = {
+      idx: gameIndex,
+      white: headers.White || "Unknown",
+      black: headers.Black || "Unknown",
+      whiteElo: parseInt(headers.WhiteElo || "0"),
+      blackElo: parseInt(headers.BlackElo || "0"),
+      result: headers.Result || "*",
+      date: headers.Date || "????.??.??",
+      event: headers.Event || "Unknown",
+      site: headers.Site || "?",
+      round: headers.Round,
+      eco: headers.ECO,
+      opening: headers.Opening,
+      variation: headers.Variation,
+      subVariation: headers.SubVariation,
+      moves: movesOnly, // Store only moves section (no headers)
+      ply: 0, // Will be calculated in buildIndexes
+      source: options.source,
+      sourceFile,
+      hash,
+      movesHash,
+      ...(headers.FEN ? { startFen: headers.FEN } : {}),
+      timeClass: classifyTimeClass(headers.TimeControl, headers.Event),
+      // Lichess records flag falls here; nothing else in the movetext does
+      ...(headers.Termination === "Time forfeit"
+        ? { termination: "timeout" as const }
+        : {}),
+    };
+
+    if (options.annotations) {
+      const annotations = extractMoveAnnotations(movesOnly);
+      if (annotations) options.annotations.set(hash, annotations);
+    }
+
+    deduplicationIndex.headers[hash] = gameIndex;
+    if (movesHash && deduplicationIndex.moves[movesHash] === undefined) {
+      deduplicationIndex.moves[movesHash] = gameIndex;
+    }
+    stats.accepted++;
+    return metadata;
+  } catch (error) {
+    // Error processing this game - keep it for a retry after parser fixes
+    quarantineGame(
+      gameText,
+      sourceFile,
+      line,
+      error instanceof Error ? error.message : String(error),
+      options,
+      stats,
+    );
+    return null;
+  }
+}
+
+/**
+ * Process every game in a PGN stream, one game at a time.
+ * onGame receives each accepted game as soon as it is built.
+ */
+async function processGameStream(
+  stream: AsyncIterable<Buffer | string>,
+  sourceFile: string,
+  deduplicationIndex: DeduplicationIndex,
+  gameIndex: number,
+  options: ProcessGamesOptions,
+  onGame: (game: GameMetadata) => void,
+): Promise<{ nextIndex: number; stats: IngestStats }> {
+  const stats = emptyStats();
+  const progressInterval = 1000;
+
+  console.log(`  Parsing games...`);
+
+  for await (const { text, line } of splitPgnGames(stream)) {
+    if (text === null) {
+      // Over MAX_GAME_BYTES - dropped by the splitter (not quarantined:
+      // the text was never held in memory)
+      stats.total++;
+      stats.rejected++;
+      countRejection(stats, "oversized");
+    } else {
+      const game = processGame(
+        text,
+        sourceFile,
+        deduplicationIndex,
+        gameIndex,
+        options,
+        stats,
+        line,
+      );
+      if (game) {
+        onGame(game);
+        gameIndex++;
+      }
+    }
+
+    if (stats.total % progressInterval === 0) {
+      process.stdout.write(`\r  Processing: ${stats.total} games...`);
+    }
+  }
+
+  process.stdout.write(`\r  Processing: ${stats.total} games complete!\n`);
+
+  return { nextIndex: gameIndex, stats };
+}
+
+/**
+ * Process a whole PGN string (small files, tests and the legacy downloader)
+ */
+async function processGames(
+  pgnContent: string,
+  sourceFile: string,
+  deduplicationIndex: DeduplicationIndex,
+  gameIndex: number,
+  options: ProcessGamesOptions,
+): Promise<{
+  games: GameMetadata[];
+  nextIndex: number;
+  stats: IngestStats;
+}> {
+  const games: GameMetadata[] = [];
+  const { nextIndex, stats } = await processGameStream(
+    Readable.from([pgnContent]),
+    sourceFile,
+    deduplicationIndex,
+    gameIndex,
+    options,
+    (game) => games.push(game),
+  );
+  return { games, nextIndex, stats };
+}
+
+/**
+ * Load existing chunks and find max game ID + deduplication index
+ */
+function loadExistingChunksData(
+  indexesDir: string,
+  playerNames?: PlayerNameResolver,
+): {
+  maxGameId: number;
+  deduplicationIndex: DeduplicationIndex;
+  lastChunk: LastChunk;
+} {
+  if (!fs.existsSync(indexesDir)) {
+    return {
+      maxGameId: -1,
+      deduplicationIndex: emptyDeduplicationIndex(),
+      lastChunk: null,
+    };
+  }
+
+  // Find all existing chunks
+  const chunkFiles = fs
+    .readdirSync(indexesDir)
+    .filter((f) => f.startsWith("chunk-") && f.endsWith(".json"))
+    .sort((a, b) => {
+      const numA = parseInt(a.match(/chunk-(\d+)/)?.[1] || "0");
+      const numB = parseInt(b.match(/chunk-(\d+)/)?.[1] || "0");
+      return numA - numB;
+    });
+
+  if (chunkFiles.length === 0) {
+    return {
+      maxGameId: -1,
+      deduplicationIndex: emptyDeduplicationIndex(),
+      lastChunk: null,
+    };
+  }
+
+  // Load last chunk
+  const lastChunkFile = chunkFiles[chunkFiles.length - 1];
+  const lastChunkId = parseInt(lastChunkFile.match(/chunk-(\d+)/)?.[1] || "0");
+  const lastChunkPath = path.join(indexesDir, lastChunkFile);
+  const lastChunkData: { games: GameMetadata[] } = JSON.parse(
+    fs.readFileSync(lastChunkPath, "utf-8"),
+  );
+
+  // Find max game ID across all games in last chunk
+  let maxGameId = -1;
+  const deduplicationIndex = emptyDeduplicationIndex();
+
+  // Build dedup index from all chunks
+  for (const chunkFile of chunkFiles) {
+    const chunkPath = path.join(indexesDir, chunkFile);
+    const chunk: { games: GameMetadata[] } = JSON.parse(
+      fs.readFileSync(chunkPath, "utf-8"),
+    );
+
+    for (const game of chunk.games) {
+      if (game.idx > maxGameId) {
+        maxGameId = game.idx;
+      }
+      addToDeduplicationIndex(deduplicationIndex, game, playerNames);
+    }
+  }
+
+  return {
+    maxGameId,
+    deduplicationIndex,
+    lastChunk: { id: lastChunkId, games: lastChunkData.games },
+  };
+}
+
+/**
+ * Write JSON via a temp file + rename, so a crash mid-write never leaves a
+ * truncated chunk, index or journal behind
+ */
+function writeJsonAtomic(filePath: string, data: unknown): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filePath);
+}
+
+function annotationsPath(indexesDir: string, chunkId: number): string {
+  return path.join(indexesDir, `annotations-${chunkId}.json`);
+}
+
+/**
+ * Merge the annotations of a chunk's games into its side file.
+ * Written entries are removed from the map.
+ */
+function saveChunkAnnotations(
+  indexesDir: string,
+  chunk: { id: number; games: GameMetadata[] },
+  annotations: Map<string, MoveAnnotations>,
+): void {
+  const filePath = annotationsPath(indexesDir, chunk.id);
+  let file: AnnotationsFile | null = null;
+
+  for (const game of chunk.games) {
+    const entry = annotations.get(game.hash);
+    if (!entry) continue;
+    file ??= fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, "utf-8"))
+      : {};
+    file![game.hash] = entry;
+    annotations.delete(game.hash);
+  }
+
+  if (file) writeJsonAtomic(filePath, file);
+}
+
+/**
+ * Save games to chunks, respecting 4000 game limit per chunk
+ * Returns the resulting last chunk so callers can append again in the same run.
+ * Annotations collected for the games go to each chunk's side file.
+ */
+function saveGamesToChunks(
+  games: GameMetadata[],
+  indexesDir: string,
+  existingLastChunk: LastChunk,
+  annotations?: Map<string, MoveAnnotations>,
+): LastChunk {
+  if (games.length === 0) return existingLastChunk;
+
+  // Ensure indexes directory exists
+  if (!fs.existsSync(indexesDir)) {
+    fs.mkdirSync(indexesDir, { recursive: true });
+  }
+
+  let currentChunk: { id: number; games: GameMetadata[] } = existingLastChunk
+    ? { id: existingLastChunk.id, games: [...existingLastChunk.games] }
+    : { id: 0, games: [] };
+
+  let gamesAdded = 0;
+
+  for (const game of games) {
+    // Check if adding this game would exceed chunk size
+    if (currentChunk.games.length >= CHUNK_SIZE) {
+      // Save current chunk
+      const chunkPath = path.join(indexesDir, `chunk-${currentChunk.id}.json`);
+      writeJsonAtomic(chunkPath, { games: currentChunk.games });
+      console.log(
+        `  💾 Saved chunk-${currentChunk.id}.json (${currentChunk.games.length} games)`,
+      );
+      if (annotations) {
+        saveChunkAnnotations(indexesDir, currentChunk, annotations);
+      }
+
+      // Start new chunk
+      currentChunk = { id: currentChunk.id + 1, games: [] };
+    }
+
+    currentChunk.games.push(game);
+    gamesAdded++;
+  }
+
+  // Save final chunk
+  if (currentChunk.games.length > 0) {
+    const chunkPath = path.join(indexesDir, `chunk-${currentChunk.id}.json`);
+    writeJsonAtomic(chunkPath, { games: currentChunk.games });
+    console.log(
+      `  💾 Saved chunk-${currentChunk.id}.json (${currentChunk.games.length} games)`,
+    );
+    if (annotations) {
+      saveChunkAnnotations(indexesDir, currentChunk, annotations);
+    }
+  }
+
+  console.log(`  ✅ Total games added to chunks: ${gamesAdded}`);
+  return currentChunk;
+}
+
+function loadSourceTracking(): SourceTracking {
+  if (!fs.existsSync(SOURCE_TRACKING_PATH)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(SOURCE_TRACKING_PATH, "utf-8"));
+}
+
+function saveSourceTracking(tracking: SourceTracking): void {
+  if (!fs.existsSync(INDEXES_DIR)) {
+    fs.mkdirSync(INDEXES_DIR, { recursive: true });
+  }
+  writeJsonAtomic(SOURCE_TRACKING_PATH, tracking);
+}
+
+/**
+ * Wrap an adapter for offline replay: no network access at all.
+ * Files come from the adapter's source-tracking section (with their recorded
+ * metadata), limited to those still present in DOWNLOAD_DIR, and every one
+ * of them is reprocessed - useful for reproducing an import or testing
+ * filter changes against real data.
+ */
+function createOfflineAdapter(adapter: SourceAdapter): SourceAdapter {
+  const localCopy = (file: SourceFile) =>
+    path.join(DOWNLOAD_DIR, file.filename);
+
+  return {
+    ...adapter,
+    label: `${adapter.label} (offline replay)`,
+    throttleMs: 0,
+    inputs: { ...adapter.inputs, mode: "offline" },
+
+    async discover() {
+      const tracking = loadSourceTracking()[adapter.trackingKey];
+      const tracked: SourceFile[] = Object.values(tracking?.files ?? {}).map(
+        ({ filename, url, lastModified, etag, issue, contentHash }) => ({
+          filename,
+          url,
+          lastModified,
+          etag,
+          issue,
+          contentHash,
+        }),
+      );
+      const available = tracked.filter((f) => fs.existsSync(localCopy(f)));
+
+      console.log(`📴 Offline replay from ${DOWNLOAD_DIR}`);
+      console.log(`  ✅ Tracked files with a local copy: ${available.length}`);
+      if (available.length < tracked.length) {
+        console.log(
+          `  ⚠️  Tracked but not downloaded (skipped): ${tracked.length - available.length}`,
+        );
+      }
+      return available;
+    },
+
+    // Replay everything available - tracking says these are unchanged
+    async checkForChanges(files) {
+      return files;
+    },
+
+    async fetch(file) {
+      return fs.existsSync(localCopy(file)) ? localCopy(file) : null;
+    },
+  };
+}
+
+function runJournalPath(trackingKey: string): string {
+  return path.join(DOWNLOAD_DIR, `run-journal-${trackingKey}.json`);
+}
+
+function loadRunJournal(trackingKey: string): RunJournal | null {
+  const journalPath = runJournalPath(trackingKey);
+  if (!fs.existsSync(journalPath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(journalPath, "utf-8"));
+}
+
+/**
+ * The inputs a run's journal records: online unless the adapter says
+ * otherwise, plus whatever the adapter reads (local paths, collection)
+ */
+function runInputs(adapter: SourceAdapter): RunInputs {
+  return { mode: "online", ...adapter.inputs };
+}
+
+function sameRunInputs(a: RunInputs, b: RunInputs): boolean {
+  const canonical = (inputs: RunInputs) =>
+    JSON.stringify(
+      Object.keys(inputs)
+        .sort()
+        .map((k) => [k, inputs[k]]),
+    );
+  return canonical(a) === canonical(b);
+}
+
+function saveRunJournal(journal: RunJournal): void {
+  journal.updatedAt = new Date().toISOString();
+  writeJsonAtomic(runJournalPath(journal.trackingKey), journal);
+}
+
+/**
+ * Discover files and narrow them to the ones this run should process
+ * (new/changed, capped by MAX_FILES)
+ */
+async function planFiles(
+  adapter: SourceAdapter,
+  sourceTracking: SiteSourceTracking,
+): Promise<SourceFile[]> {
+  // Step 1: Discover available files
+  const discoveredFiles = await adapter.discover();
+
+  // Step 2: Classify files as new/modified
+  const filesToProcess = await adapter.checkForChanges(
+    discoveredFiles,
+    sourceTracking,
+  );
+
+  // Summary report
+  console.log("\n" + "=".repeat(60));
+  console.log("📊 Discovery Summary");
+  console.log("=".repeat(60));
+  console.log(`Total files discovered: ${discoveredFiles.length}`);
+  console.log(`  📥 To process: ${filesToProcess.length}`);
+  console.log(
+    `  ✅ Unchanged: ${discoveredFiles.length - filesToProcess.length}`,
+  );
+  console.log("=".repeat(60));
+
+  if (filesToProcess.length > 0) {
+    console.log("\n📥 Files to process:");
+    filesToProcess.forEach((f) => console.log(`   - ${f.filename}`));
+  }
+
+  if (filesToProcess.length === 0) {
+    console.log("\n✅ All files up to date - nothing to download\n");
+    return [];
+  }
+
+  // Apply file limit if MAX_FILES env var is set (for testing)
+  const MAX_FILES = parseInt(process.env.MAX_FILES || "0");
+  const limitedFiles =
+    MAX_FILES > 0 && filesToProcess.length > MAX_FILES
+      ? filesToProcess.slice(0, MAX_FILES)
+      : filesToProcess;
+
+  if (limitedFiles.length < filesToProcess.length) {
+    console.log(
+      `\n⚠️  MAX_FILES limit: Processing only ${limitedFiles.length} of ${filesToProcess.length} files`,
+    );
+  }
+
+  return limitedFiles;
+}
+
+/**
+ * Run a full download step for one source:
+ * discover → check for changes → fetch → read PGN → filter/hash/id → chunks
+ *
+ * Each file's games are written to chunks (and the dedup index saved) before
+ * the file is recorded in source tracking, so a crash never marks a file as
+ * imported when its games were not saved.
+ *
+ * Progress is checkpointed to a run journal after every chunk write and
+ * completed file. If the process dies, the next run with the same inputs
+ * (mode, adapter inputs) resumes the journal's remaining files instead of
+ * rediscovering; games already written from the interrupted file are
+ * skipped as duplicates. A run with other inputs, or FRESH_RUN=true, starts
+ * a fresh journal.
+ */
+async function runIngest(adapter: SourceAdapter): Promise<void> {
+  console.log(`🎯 Discovering files from ${adapter.label}\n`);
+  console.log(`User-Agent: ${USER_AGENT}\n`);
+
+  if (!fs.existsSync(DOWNLOAD_DIR)) {
+    fs.mkdirSync(DOWNLOAD_DIR, { recursive: true });
+  }
+
+  // Load existing source tracking (used for incremental local runs)
+  const allSourceTracking = loadSourceTracking();
+  const sourceTracking: SiteSourceTracking = allSourceTracking[
+    adapter.trackingKey
+  ] || { files: {} };
+
+  console.log("📂 Loading source tracking...");
+  console.log(
+    `  ✅ Tracked files: ${Object.keys(sourceTracking.files).length}\n`,
+  );
+
+  const visitDate = new Date().toISOString();
+
+  // Resume an interrupted run before discovering anything new - but only
+  // one that read the same inputs (mode, local paths/collection)
+  const inputs = runInputs(adapter);
+  const previousJournal = loadRunJournal(adapter.trackingKey);
+  const interrupted =
+    previousJournal?.status === "running" && process.env.FRESH_RUN !== "true";
+  const resuming =
+    interrupted &&
+    sameRunInputs(previousJournal.inputs ?? { mode: "online" }, inputs);
+  if (interrupted && !resuming) {
+    console.log(
+      `🆕 Interrupted run from ${previousJournal.startedAt} read different inputs - starting fresh`,
+    );
+    console.log(
+      `  ℹ️  Its unfinished files are not resumed; rerun with its inputs to import them\n`,
+    );
+  }
+
+  let limitedFiles: SourceFile[];
+  if (resuming) {
+    const completed = new Set(previousJournal.completedFiles);
+    limitedFiles = previousJournal.files.filter(
+      (f) => !completed.has(f.filename),
+    );
+    console.log(
+      `♻️  Resuming interrupted run from ${previousJournal.startedAt}`,
+    );
+    console.log(
+      `  ✅ Completed files: ${completed.size}/${previousJournal.files.length}`,
+    );
+    if (previousJournal.currentFile) {
+      console.log(
+        `  ⚠️  Interrupted during ${previousJournal.currentFile} - reprocessing it (games already saved are skipped as duplicates)`,
+      );
+    }
+    console.log(
+      "  ℹ️  Set FRESH_RUN=true to discard the journal and rediscover files",
+    );
+  } else {
+    limitedFiles = await planFiles(adapter, sourceTracking);
+    if (limitedFiles.length === 0) {
+      return;
+    }
+  }
+
+  console.log(
+    `\n🚀 Starting download and processing of ${limitedFiles.length} files...\n`,
+  );
+
+  // Load existing chunks and deduplication index
+  const playerNames = createPlayerNameResolver(loadPlayerAliases());
+  const existing = loadExistingChunksData(INDEXES_DIR, playerNames);
+  const { maxGameId, deduplicationIndex } = existing;
+  let lastChunk = existing.lastChunk;
+
+  console.log(`📊 Current database state:`);
+  console.log(`  Max game ID: ${maxGameId}`);
+  console.log(
+    `  Unique games: ${Object.keys(deduplicationIndex.headers).length}`,
+  );
+  console.log(
+    `  Last chunk: ${lastChunk ? `chunk-${lastChunk.id} (${lastChunk.games.length} games)` : "none"}\n`,
+  );
+
+  // Filter rules: the source's profile in data/filter-profiles.json, if any
+  const sourceFilters = sourceFilterOptions(adapter.id, adapter.filterOptions);
+  const filterOptions: FilterOptions = ALLOW_FEN_SETUPS
+    ? { ...sourceFilters, allowFenSetups: true }
+    : sourceFilters;
+  console.log(
+    `🎛️  Filter profile: ${filterOptions.profile?.name ?? "built-in rules"}\n`,
+  );
+
+  let nextGameId = maxGameId + 1;
+  const totalStats = emptyStats();
+
+  // Chunks on disk are the source of truth for ids; the journal only
+  // explains a mismatch
+  if (resuming && previousJournal.nextGameId !== nextGameId) {
+    const direction =
+      nextGameId > previousJournal.nextGameId
+        ? "games were saved after the last checkpoint"
+        : "chunks are missing games the journal recorded - were chunks restored?";
+    console.log(
+      `⚠️  Journal expected next game ID ${previousJournal.nextGameId}, chunks give ${nextGameId} (${direction})\n`,
+    );
+  }
+
+  const journal: RunJournal = resuming
+    ? previousJournal
+    : {
+        adapterId: adapter.id,
+        trackingKey: adapter.trackingKey,
+        status: "running",
+        startedAt: visitDate,
+        updatedAt: visitDate,
+        files: limitedFiles,
+        completedFiles: [],
+        nextGameId,
+        lastChunk: null,
+        stats: emptyStats(),
+        inputs,
+      };
+
+  // Games that failed to parse, written to the quarantine store per file
+  const quarantine = {
+    runId: `${adapter.trackingKey}@${journal.startedAt}`,
+    entries: [] as QuarantineEntry[],
+  };
+  const flushQuarantine = () => {
+    appendQuarantine(quarantine.entries);
+    quarantine.entries.length = 0;
+  };
+
+  // Rejected duplicates, matched and written to the dedup report per file
+  const duplicates = createDedupRecorder(
+    {
+      adapterId: adapter.id,
+      trackingKey: adapter.trackingKey,
+      startedAt: journal.startedAt,
+      policy: DEDUP_POLICY,
+    },
+    INDEXES_DIR,
+    { playerNames },
+  );
+
+  const checkpoint = () => {
+    journal.nextGameId = nextGameId;
+    journal.lastChunk = lastChunk
+      ? { id: lastChunk.id, gameCount: lastChunk.games.length }
+      : null;
+    saveRunJournal(journal);
+  };
+  checkpoint();
+
+  // Accepted games not yet written to chunks. Flushed every CHUNK_SIZE
+  // games and at the end of each file, so memory stays bounded no matter
+  // how large a file is.
+  const pendingGames: GameMetadata[] = [];
+  // Clock/eval data of pending games, written with their chunk
+  const annotations = KEEP_ANNOTATIONS
+    ? new Map<string, MoveAnnotations>()
+    : undefined;
+  let annotatedGames = 0;
+  const flushPendingGames = () => {
+    if (pendingGames.length === 0) return;
+    annotatedGames += annotations?.size ?? 0;
+    lastChunk = saveGamesToChunks(
+      pendingGames,
+      INDEXES_DIR,
+      lastChunk,
+      annotations,
+    );
+    nextGameId = pendingGames[pendingGames.length - 1].idx + 1;
+    pendingGames.length = 0;
+    checkpoint();
+  };
+
+  // Process each file
+  for (let i = 0; i < limitedFiles.length; i++) {
+    const file = limitedFiles[i];
+    const fileNum = i + 1;
+
+    console.log(
+      `\n[${fileNum}/${limitedFiles.length}] Processing ${file.filename}...`,
+    );
+
+    journal.currentFile = file.filename;
+    checkpoint();
+
+    try {
+      // Download
+      console.log(`  📥 Downloading...`);
+      const localPath = await adapter.fetch(file);
+
+      if (!localPath) {
+        console.error(`  ❌ Skipping ${file.filename} due to download failure`);
+        continue;
+      }
+
+      // Stream every PGN text the file yields, game by game
+      console.log(`  📦 Extracting...`);
+      const fileStats = emptyStats();
+      const entryStats: { [entryName: string]: IngestStats } = {};
+      let pgnCount = 0;
+
+      for await (const { entryName, stream } of adapter.readPgn(localPath)) {
+        pgnCount++;
+        console.log(
+          `  ⚙️  Processing games${entryName ? ` (${entryName})` : ""}...`,
+        );
+        const { nextIndex, stats } = await processGameStream(
+          stream,
+          entrySourceFile(file.filename, entryName),
+          deduplicationIndex,
+          nextGameId,
+          {
+            source: adapter.id,
+            filterOptions,
+            playerNames,
+            duplicates,
+            quarantine,
+            annotations,
+          },
+          (game) => {
+            pendingGames.push(game);
+            if (pendingGames.length >= CHUNK_SIZE) flushPendingGames();
+          },
+        );
+
+        if (entryName) {
+          entryStats[entryName] = stats;
+        }
+        nextGameId = nextIndex;
+        addStats(fileStats, stats);
+      }
+
+      if (pgnCount === 0) {
+        console.error(`  ❌ No PGN content found in ${file.filename}`);
+        continue;
+      }
+
+      // Update stats
+      addStats(totalStats, fileStats);
+
+      console.log(`  ✅ Imported ${fileStats.accepted} new games`);
+      console.log(
+        `     Total: ${fileStats.total}, Accepted: ${fileStats.accepted}, Rejected: ${fileStats.rejected}, Duplicates: ${fileStats.duplicates}, Quarantined: ${fileStats.quarantined}`,
+      );
+      if (fileStats.rejections) {
+        console.log(
+          `     Rejected by reason: ${formatRejections(fileStats.rejections)}`,
+        );
+      }
+
+      // Save the rest of this file's games
+      flushPendingGames();
+      flushQuarantine();
+      await duplicates.flush();
+
+      // Update local tracking for this file, even if no new games were imported.
+      sourceTracking.files[file.filename] = {
+        ...file,
+        downloadDate: new Date().toISOString(),
+        gameCount: fileStats.total,
+        ...(fileStats.rejections ? { rejections: fileStats.rejections } : {}),
+        // Per-entry stats for archives (omitted for single-file sources)
+        ...(Object.keys(entryStats).length > 0 ? { entries: entryStats } : {}),
+      };
+      sourceTracking.lastPageVisit = visitDate;
+      allSourceTracking[adapter.trackingKey] = sourceTracking;
+      saveSourceTracking(allSourceTracking);
+
+      journal.completedFiles.push(file.filename);
+      journal.currentFile = undefined;
+      addStats(journal.stats, fileStats);
+      checkpoint();
+
+      // Throttle
+      if (i < limitedFiles.length - 1) {
+        console.log(`  ⏳ Throttling ${adapter.throttleMs}ms...`);
+        await sleep(adapter.throttleMs);
+      }
+    } catch (error) {
+      console.error(`  ❌ Error processing ${file.filename}:`, error);
+      // Keep games accepted before the error - they are already in the
+      // dedup index. The file stays untracked and is retried next run.
+      flushPendingGames();
+      flushQuarantine();
+      await duplicates.flush();
+      // Continue with next file
+    }
+  }
+
+  // Written once per run: ingest rebuilds the index from chunks on load,
+  // so the file is only passed through to buildIndexes and the upload
+  writeJsonAtomic(
+    path.join(INDEXES_DIR, "deduplication-index.json"),
+    deduplicationIndex,
+  );
+
+  journal.status = "complete";
+  journal.currentFile = undefined;
+  checkpoint();
+
+  // Run totals (across resumes) for the workflow UI's rejection breakdown
+  sourceTracking.lastRun = {
+    runId: quarantine.runId,
+    startedAt: journal.startedAt,
+    completedAt: journal.updatedAt,
+    files: journal.completedFiles,
+    stats: journal.stats,
+  };
+  allSourceTracking[adapter.trackingKey] = sourceTracking;
+  saveSourceTracking(allSourceTracking);
+
+  const report = await duplicates.finish();
+  const { exact, nearDuplicate, headerCollision } = report.totals;
+  const reportPath =
+    exact + nearDuplicate + headerCollision > 0
+      ? saveDedupReport(report)
+      : undefined;
+
+  // Final summary
+  console.log("\n" + "=".repeat(60));
+  console.log("📊 Processing Complete");
+  console.log("=".repeat(60));
+  console.log(`Files processed: ${limitedFiles.length}`);
+  console.log(`Total games: ${totalStats.total}`);
+  console.log(`Accepted: ${totalStats.accepted}`);
+  console.log(`Rejected: ${totalStats.rejected}`);
+  console.log(`  Quarantined (parse errors): ${totalStats.quarantined}`);
+  if (totalStats.rejections) {
+    console.log(`  By reason: ${formatRejections(totalStats.rejections)}`);
+  }
+  console.log(`Duplicates skipped: ${totalStats.duplicates}`);
+  if (annotations) {
+    console.log(`Games with clock/eval annotations: ${annotatedGames}`);
+  }
+  console.log(`  Near-duplicates (move hash): ${report.totals.nearDuplicate}`);
+  console.log(
+    `  Header collisions (moves differ): ${report.totals.headerCollision}`,
+  );
+  console.log(`Next game ID: ${nextGameId}`);
+  console.log("=".repeat(60));
+
+  const nearDuplicates = report.samples.nearDuplicate;
+  if (nearDuplicates.length > 0) {
+    console.log(`\n🔁 Near-duplicates (same moves, different headers):`);
+    for (const near of nearDuplicates.slice(0, NEAR_DUPLICATE_LOG_LIMIT)) {
+      console.log(
+        `  ${near.incoming.white} - ${near.incoming.black}, ${near.incoming.event} ${near.incoming.date} (${near.sourceFile}) = game ${near.existingIdx}`,
+      );
+    }
+    if (report.totals.nearDuplicate > NEAR_DUPLICATE_LOG_LIMIT) {
+      console.log(
+        `  ... and ${report.totals.nearDuplicate - NEAR_DUPLICATE_LOG_LIMIT} more`,
+      );
+    }
+  }
+  if (report.totals.headerCollision > 0) {
+    console.log(
+      `\n⚠️  ${report.totals.headerCollision} games had a known header hash but different moves - review the dedup report`,
+    );
+  }
+  if (reportPath) {
+    console.log(`\n📝 Dedup report: ${reportPath}`);
+  }
+  if (totalStats.quarantined) {
+    console.log(
+      `\n🧪 ${totalStats.quarantined} games quarantined in ${QUARANTINE_PATH} - retry with npm run quarantine:retry`,
+    );
+  }
+  console.log("\n✅ Download and chunking complete!");
+  console.log("\nℹ️  Local source tracking updated for processed files.");
+  console.log(
+    "⚠️  Production tracking is still finalized after upload to Netlify Blobs.\n",
+  );
+}
+
+export {
+  runIngest,
+  createOfflineAdapter,
+  sleep,
+  mapWithConcurrency,
+  downloadFile,
+  fetchToDownloadDir,
+  extractZip,
+  readZipPgn,
+  readPgnFile,
+  detectCompression,
+  entrySourceFile,
+  processGames,
+  processGameStream,
+  emptyDeduplicationIndex,
+  addToDeduplicationIndex,
+  loadExistingChunksData,
+  saveGamesToChunks,
+  loadSourceTracking,
+  saveSourceTracking,
+  loadRunJournal,
+  writeJsonAtomic,
+  envPositiveInt,
+  DOWNLOAD_DIR,
+  INDEXES_DIR,
+  CHUNK_SIZE,
+  USER_AGENT,
+  HTTP_CONCURRENCY,
+  HTTP_RETRIES,
+};
+export type { IngestStats };
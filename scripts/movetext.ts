@@ -0,0 +1,209 @@
+// PGN movetext tokenizer
+// One parser for every place that needs moves out of movetext: ingest
+// (move hashing) and buildIndexes (eco.json enrichment). Follows the PGN
+// standard's token rules rather than regex-stripping, so nested variations,
+// NAGs, comments and escape lines can't leak into the move list.
+
+import type { MoveAnnotations } from "./types.js";
+
+/**
+ * A movetext token. `depth` is the variation (RAV) nesting level:
+ * 0 for the main line, 1 inside "( ... )", and so on.
+ */
+export interface MovetextToken {
+  type:
+    | "move" // SAN, annotation glyphs removed: "Nf3+", "O-O", "exd8=Q#"
+    | "moveNumber" // "12." or "12..."
+    | "nag" // "$1"; suffix glyphs like "!?" are emitted as their NAG
+    | "comment" // {brace} or ;line comment text, trimmed
+    | "ravStart"
+    | "ravEnd"
+    | "result" // "1-0", "0-1", "1/2-1/2", "*"
+    | "escape" // "%" line, text after the "%"
+    | "tag"; // Stray "[Name "value"]" in legacy movetext
+  value: string;
+  depth: number;
+}
+
+// Suffix annotation glyphs and their NAG equivalents (PGN standard 10)
+const GLYPH_NAGS: Record<string, string> = {
+  "!": "$1",
+  "?": "$2",
+  "!!": "$3",
+  "??": "$4",
+  "!?": "$5",
+  "?!": "$6",
+};
+
+const RESULT = /^(1-0|0-1|1\/2-1\/2|½-½|\*)$/;
+
+// Characters that end a symbol token
+const DELIMITER = /[\s{}();[\]$]/;
+
+/**
+ * Split movetext into tokens.
+ *
+ * Handles nested variations, brace/line comments (an unterminated comment
+ * runs to the end of the text), "%" escape lines, NAGs and suffix glyphs,
+ * and move numbers in every form: "1.", "1...", "1.e4", "12...Nf6".
+ * "0-0" castling is normalized to "O-O".
+ */
+export function tokenizeMovetext(text: string): MovetextToken[] {
+  const tokens: MovetextToken[] = [];
+  let depth = 0;
+  let lineStart = true;
+  let i = 0;
+
+  const push = (type: MovetextToken["type"], value: string) =>
+    tokens.push({ type, value, depth });
+
+  // Text up to (not including) the next `stop`, or to the end
+  const until = (stop: string, from: number) => {
+    const end = text.indexOf(stop, from);
+    return end === -1 ? text.length : end;
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\n") {
+      lineStart = true;
+      i++;
+      continue;
+    }
+    if (ch === "%" && lineStart) {
+      const end = until("\n", i);
+      push("escape", text.slice(i + 1, end));
+      i = end;
+      continue;
+    }
+    lineStart = false;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "{") {
+      const end = until("}", i + 1);
+      push("comment", text.slice(i + 1, end).trim());
+      i = end + 1;
+    } else if (ch === ";") {
+      const end = until("\n", i);
+      push("comment", text.slice(i + 1, end).trim());
+      i = end;
+    } else if (ch === "(") {
+      push("ravStart", "(");
+      depth++;
+      i++;
+    } else if (ch === ")") {
+      depth = Math.max(0, depth - 1);
+      push("ravEnd", ")");
+      i++;
+    } else if (ch === "[") {
+      const end = until("]", i + 1);
+      push("tag", text.slice(i, end + 1));
+      i = end + 1;
+    } else if (ch === "$") {
+      const nag = text.slice(i).match(/^\$\d+/);
+      if (nag) push("nag", nag[0]);
+      i += nag ? nag[0].length : 1;
+    } else {
+      let end = i;
+      while (end < text.length && !DELIMITER.test(text[end])) end++;
+      pushSymbol(text.slice(i, end), push);
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+function pushSymbol(
+  symbol: string,
+  push: (type: MovetextToken["type"], value: string) => void,
+): void {
+  // Move number, possibly glued to the move: "1.", "1...", "1.e4"
+  const numbered = symbol.match(/^(\d+)(\.*)(.*)$/);
+  if (numbered && !RESULT.test(symbol) && !/^0-0/.test(symbol)) {
+    push("moveNumber", numbered[1] + numbered[2]);
+    symbol = numbered[3];
+    if (symbol === "") return;
+  }
+
+  if (RESULT.test(symbol)) {
+    push("result", symbol === "½-½" ? "1/2-1/2" : symbol);
+    return;
+  }
+
+  const glyph = symbol.match(/^(.+?)([!?]{1,2})$/);
+  let san = glyph ? glyph[1] : symbol;
+  san = san.replace(/^0-0-0/, "O-O-O").replace(/^0-0/, "O-O");
+
+  push("move", san);
+  if (glyph) push("nag", GLYPH_NAGS[glyph[2]] ?? glyph[2]);
+}
+
+/**
+ * Main-line SAN moves of a movetext, in order.
+ *
+ * "1. e4 {best} e5!? 2. Nf3 (2. f4 (2. d4) exf4) $1 Nc6 1-0"
+ *   → ["e4", "e5", "Nf3", "Nc6"]
+ */
+export function parseSanMoves(text: string): string[] {
+  return tokenizeMovetext(text)
+    .filter((token) => token.type === "move" && token.depth === 0)
+    .map((token) => token.value);
+}
+
+// Embedded command comments: [%clk 1:59:56], [%eval 0.23], [%eval #-3,20]
+const CLOCK_COMMAND = /\[%clk\s+(\d+):(\d+):(\d+(?:\.\d+)?)\s*\]/;
+const EVAL_COMMAND = /\[%eval\s+(#?[+-]?\d+(?:\.\d+)?)[^\]]*\]/;
+
+/** Pawns as written ("0.23", "-1.5") → centipawns; mates stay "#3" / "#-3" */
+function parseEval(value: string): number | string {
+  if (value.startsWith("#")) return value.replace("+", "");
+  return Math.round(parseFloat(value) * 100);
+}
+
+/**
+ * Per-ply clock and eval values from main-line [%clk] / [%eval] comments.
+ * Index i belongs to the i-th main-line move; plies without a value are
+ * null. Returns undefined when the movetext carries neither.
+ *
+ * "1. e4 { [%eval 0.2] [%clk 0:03:00] } e5 { [%clk 0:02:58] }"
+ *   → { clk: [180, 178], eval: [20, null] }
+ */
+export function extractMoveAnnotations(
+  text: string,
+): MoveAnnotations | undefined {
+  const clk: (number | null)[] = [];
+  const evals: (number | string | null)[] = [];
+  let ply = 0;
+  let hasClock = false;
+  let hasEval = false;
+
+  for (const token of tokenizeMovetext(text)) {
+    if (token.depth !== 0) continue;
+    if (token.type === "move") {
+      ply++;
+      clk.push(null);
+      evals.push(null);
+    } else if (token.type === "comment" && ply > 0) {
+      const clock = token.value.match(CLOCK_COMMAND);
+      if (clock) {
+        const [, h, m, s] = clock;
+        clk[ply - 1] = parseInt(h) * 3600 + parseInt(m) * 60 + parseFloat(s);
+        hasClock = true;
+      }
+      const evaluation = token.value.match(EVAL_COMMAND);
+      if (evaluation) {
+        evals[ply - 1] = parseEval(evaluation[1]);
+        hasEval = true;
+      }
+    }
+  }
+
+  if (!hasClock && !hasEval) return undefined;
+  return {
+    ...(hasClock ? { clk } : {}),
+    ...(hasEval ? { eval: evals } : {}),
+  };
+}
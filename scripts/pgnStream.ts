@@ -0,0 +1,134 @@
+// Incremental PGN game splitter
+// Turns a byte/text stream into one PGN string per game without ever
+// holding more than one game (plus one partial line) in memory.
+
+import { StringDecoder } from "string_decoder";
+
+// A tag pair line: [Name "value"]  ([%clk ...] comment commands don't match)
+const HEADER_LINE = /^\s*\[[A-Za-z0-9_]+\s+"/;
+
+// Games larger than this are skipped (default 1 MB, override for testing)
+const MAX_GAME_BYTES = parseInt(process.env.MAX_GAME_BYTES || "1048576");
+
+/**
+ * Track whether a movetext line leaves us inside a { ... } comment,
+ * so a "[Tag" line inside a multi-line comment isn't taken as a new game
+ */
+function endsInComment(line: string, inComment: boolean): boolean {
+  for (const ch of line) {
+    if (inComment) {
+      if (ch === "}") inComment = false;
+    } else if (ch === "{") {
+      inComment = true;
+    } else if (ch === ";") {
+      break; // rest-of-line comment
+    }
+  }
+  return inComment;
+}
+
+/**
+ * One game from the splitter
+ */
+interface SplitGame {
+  text: string | null; // null when the game exceeded maxGameBytes
+  line: number; // 1-based line in the stream where the game starts
+}
+
+/**
+ * Split a PGN stream into games, yielding each game's text as it completes.
+ *
+ * A game ends where a tag pair line follows movetext. Memory is bounded by
+ * maxGameBytes: a game that grows past it is dropped and yielded with null
+ * text so callers can count it as rejected.
+ */
+async function* splitPgnGames(
+  source: AsyncIterable<Buffer | string>,
+  maxGameBytes = MAX_GAME_BYTES,
+): AsyncGenerator<SplitGame> {
+  const decoder = new StringDecoder("utf8");
+  let partial = ""; // Incomplete last line of the previous chunk
+  let lines: string[] = [];
+  let gameBytes = 0;
+  let oversized = false;
+  let inMoves = false; // Current game has movetext
+  let inComment = false;
+  let first = true;
+  let lineNumber = 0;
+  let gameLine = 0; // First non-blank line of the current game
+
+  // Finish the current game; undefined when there was nothing to finish
+  const takeGame = (): SplitGame | undefined => {
+    const text = oversized ? null : lines.join("\n");
+    const line = gameLine;
+    lines = [];
+    gameBytes = 0;
+    oversized = false;
+    inMoves = false;
+    inComment = false;
+    gameLine = 0;
+    if (text !== null && text.trim() === "") return undefined;
+    return { text, line };
+  };
+
+  const handleLine = (line: string): SplitGame | undefined => {
+    lineNumber++;
+    if (first) {
+      line = line.replace(/^\uFEFF/, ""); // UTF-8 BOM
+      first = false;
+    }
+    line = line.replace(/\r$/, "");
+
+    const isHeader = !inComment && HEADER_LINE.test(line);
+    const finished = isHeader && inMoves ? takeGame() : undefined;
+    if (gameLine === 0 && line.trim() !== "") gameLine = lineNumber;
+
+    if (!oversized) {
+      lines.push(line);
+      gameBytes += line.length + 1;
+      if (gameBytes > maxGameBytes) {
+        oversized = true;
+        lines = [];
+      }
+    }
+
+    if (!isHeader && line.trim() !== "") {
+      inMoves = true;
+      inComment = endsInComment(line, inComment);
+    }
+
+    return finished;
+  };
+
+  for await (const chunk of source) {
+    const text =
+      partial + (typeof chunk === "string" ? chunk : decoder.write(chunk));
+    const parts = text.split("\n");
+    partial = parts.pop()!;
+
+    for (const line of parts) {
+      const game = handleLine(line);
+      if (game !== undefined) yield game;
+    }
+
+    // A single line longer than the limit can't belong to a usable game
+    if (partial.length > maxGameBytes) {
+      oversized = true;
+      inMoves = true;
+      lines = [];
+      partial = "";
+      if (gameLine === 0) gameLine = lineNumber + 1;
+    }
+  }
+
+  partial += decoder.end();
+  if (partial) {
+    const game = handleLine(partial);
+    if (game !== undefined) yield game;
+  }
+  const last = takeGame();
+  if (last !== undefined) yield last;
+}
+
+export { splitPgnGames, MAX_GAME_BYTES };
+export type { SplitGame };
@@ -0,0 +1,353 @@
+// Player name canonicalization
+// One player appears as "Carlsen, Magnus", "Carlsen,M" and "Magnus Carlsen"
+// depending on the source. Everything here maps those spellings onto a single
+// canonical name used by the dedup hash and the player index.
+
+import fs from "fs";
+import path from "path";
+import type { GameMetadata, PlayerAliases } from "./types.js";
+
+const PLAYER_ALIASES_PATH = "./data/player-aliases.json";
+const PLAYER_REVIEW_PATH = "./data/reports/player-name-review.json";
+
+// Lowercase surname particles that belong to the surname in "Given Surname" order
+const SURNAME_PARTICLES = new Set([
+  "van",
+  "von",
+  "der",
+  "den",
+  "de",
+  "del",
+  "della",
+  "da",
+  "dos",
+  "du",
+  "di",
+  "le",
+  "la",
+  "ten",
+  "ter",
+]);
+
+/**
+ * Normalized name key: "surname, given names", lowercase, no diacritics or dots.
+ *
+ *   "Carlsen, Magnus" → "carlsen, magnus"
+ *   "Carlsen,M."      → "carlsen, m"
+ *   "Magnus Carlsen"  → "carlsen, magnus"
+ *   "Van Wely L"      → "van wely, l"
+ *
+ * Unknown names ("", "?", "NN") normalize to "".
+ */
+function normalizePlayerName(raw: string): string {
+  const cleaned = (raw || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.]/g, " ")
+    .trim();
+
+  if (cleaned === "" || cleaned === "?" || cleaned === "nn") return "";
+
+  const commaAt = cleaned.indexOf(",");
+  if (commaAt !== -1) {
+    const surname = collapse(cleaned.slice(0, commaAt));
+    const given = collapse(cleaned.slice(commaAt + 1).replace(/,/g, " "));
+    return given ? `${surname}, ${given}` : surname;
+  }
+
+  const tokens = cleaned.split(/\s+/);
+  if (tokens.length === 1) return tokens[0];
+
+  // "Carlsen M" / "Van Wely L J": trailing initials follow the surname
+  let firstInitial = tokens.length;
+  while (firstInitial > 1 && tokens[firstInitial - 1].length === 1) {
+    firstInitial--;
+  }
+  if (firstInitial < tokens.length) {
+    return `${tokens.slice(0, firstInitial).join(" ")}, ${tokens.slice(firstInitial).join(" ")}`;
+  }
+
+  // "Magnus Carlsen" / "Loek van Wely": last token (plus particles) is the surname
+  let surnameStart = tokens.length - 1;
+  while (surnameStart > 1 && SURNAME_PARTICLES.has(tokens[surnameStart - 1])) {
+    surnameStart--;
+  }
+  return `${tokens.slice(surnameStart).join(" ")}, ${tokens.slice(0, surnameStart).join(" ")}`;
+}
+
+function collapse(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+function splitKey(key: string): { surname: string; given: string[] } {
+  const [surname, given = ""] = key.split(", ");
+  return { surname, given: given ? given.split(/[\s-]+/) : [] };
+}
+
+function isInitialsOnly(given: string[]): boolean {
+  return given.length > 0 && given.every((part) => part.length === 1);
+}
+
+/**
+ * Coarsest form of a name key: surname plus first initial.
+ * Used by the dedup hash so header-level spelling differences
+ * between sources don't defeat deduplication.
+ */
+function playerHashKey(key: string): string {
+  const { surname, given } = splitKey(key);
+  return given.length > 0 ? `${surname}, ${given[0][0]}` : surname;
+}
+
+/**
+ * Resolves raw header names through the alias registry
+ */
+interface PlayerNameResolver {
+  /** Canonical name key for a raw header name */
+  canonicalKey(raw: string): string;
+  /** Display name from the alias file, if the key is a registered canonical */
+  registeredName(key: string): string | undefined;
+}
+
+function createPlayerNameResolver(
+  aliases: PlayerAliases = {},
+): PlayerNameResolver {
+  const variantToKey = new Map<string, string>();
+  const registered = new Map<string, string>();
+
+  for (const [canonical, variants] of Object.entries(aliases)) {
+    const key = normalizePlayerName(canonical);
+    if (!key) continue;
+    registered.set(key, canonical);
+    for (const variant of variants) {
+      const variantKey = normalizePlayerName(variant);
+      if (variantKey) variantToKey.set(variantKey, key);
+    }
+  }
+
+  return {
+    canonicalKey(raw) {
+      const key = normalizePlayerName(raw);
+      return variantToKey.get(key) ?? key;
+    },
+    registeredName(key) {
+      return registered.get(key);
+    },
+  };
+}
+
+function loadPlayerAliases(aliasPath = PLAYER_ALIASES_PATH): PlayerAliases {
+  if (!fs.existsSync(aliasPath)) return {};
+  return JSON.parse(fs.readFileSync(aliasPath, "utf-8"));
+}
+
+/**
+ * Likely duplicates the automatic rules could not settle.
+ * Resolve them by adding entries to data/player-aliases.json.
+ */
+interface PlayerNameReview {
+  generatedAt: string;
+  rawNames: number;
+  players: number;
+  /** Canonical players with more than one raw spelling */
+  merged: { name: string; variants: string[] }[];
+  /** Initials-only names matching more than one full name */
+  ambiguous: { name: string; games: number; candidates: string[] }[];
+  /** Distinct players whose names differ by a small edit distance */
+  similar: { names: [string, string]; distance: number }[];
+}
+
+interface PlayerCanonicalization {
+  /** Raw header name → canonical display name */
+  canonicalNames: Map<string, string>;
+  review: PlayerNameReview;
+}
+
+/**
+ * Resolve every player name in the corpus to a canonical display name.
+ *
+ * On top of the alias registry, an initials-only form ("carlsen, m") is
+ * folded into the single full name with the same surname and matching
+ * initials. The display name is the alias-file spelling when registered,
+ * otherwise the most frequent full-name spelling in the group.
+ */
+function canonicalizePlayers(
+  games: GameMetadata[],
+  resolver: PlayerNameResolver,
+): PlayerCanonicalization {
+  // key → raw spelling → occurrences
+  const spellings = new Map<string, Map<string, number>>();
+  const rawToKey = new Map<string, string>();
+
+  for (const game of games) {
+    for (const raw of [game.white, game.black]) {
+      if (!raw) continue;
+      let key = rawToKey.get(raw);
+      if (key === undefined) {
+        key = resolver.canonicalKey(raw);
+        rawToKey.set(raw, key);
+      }
+      if (!key) continue;
+      const counts = spellings.get(key) ?? new Map<string, number>();
+      counts.set(raw, (counts.get(raw) ?? 0) + 1);
+      spellings.set(key, counts);
+    }
+  }
+
+  // Full-name keys grouped by surname, for initial expansion
+  const fullBySurname = new Map<string, string[]>();
+  for (const key of spellings.keys()) {
+    const { surname, given } = splitKey(key);
+    if (given.length === 0 || isInitialsOnly(given)) continue;
+    const keys = fullBySurname.get(surname) ?? [];
+    keys.push(key);
+    fullBySurname.set(surname, keys);
+  }
+
+  const mergedInto = new Map<string, string>();
+  const ambiguous: PlayerNameReview["ambiguous"] = [];
+
+  for (const [key, counts] of spellings) {
+    const { surname, given } = splitKey(key);
+    if (!isInitialsOnly(given) || resolver.registeredName(key)) continue;
+
+    const candidates = (fullBySurname.get(surname) ?? []).filter((full) => {
+      const fullGiven = splitKey(full).given;
+      return given.every((initial, i) => fullGiven[i]?.[0] === initial);
+    });
+
+    if (candidates.length === 1) {
+      mergedInto.set(key, candidates[0]);
+    } else if (candidates.length > 1) {
+      ambiguous.push({
+        name: key,
+        games: sum(counts.values()),
+        candidates: candidates.sort(),
+      });
+    }
+  }
+
+  // Fold merged spellings into their target group
+  for (const [from, to] of mergedInto) {
+    const target = spellings.get(to)!;
+    for (const [raw, n] of spellings.get(from)!) {
+      target.set(raw, (target.get(raw) ?? 0) + n);
+    }
+    spellings.delete(from);
+  }
+
+  const displayByKey = new Map<string, string>();
+  const merged: PlayerNameReview["merged"] = [];
+
+  for (const [key, counts] of spellings) {
+    // Spellings folded in from initials rank after the full-name ones
+    const folded = (raw: string) => (rawToKey.get(raw) === key ? 0 : 1);
+    const ranked = [...counts.entries()].sort(
+      (a, b) =>
+        folded(a[0]) - folded(b[0]) || b[1] - a[1] || a[0].localeCompare(b[0]),
+    );
+    const display = resolver.registeredName(key) ?? ranked[0][0];
+    displayByKey.set(key, display);
+    if (ranked.length > 1) {
+      merged.push({ name: display, variants: ranked.map(([raw]) => raw) });
+    }
+  }
+
+  const canonicalNames = new Map<string, string>();
+  for (const [raw, key] of rawToKey) {
+    const display = displayByKey.get(mergedInto.get(key) ?? key);
+    if (display) canonicalNames.set(raw, display);
+  }
+
+  return {
+    canonicalNames,
+    review: {
+      generatedAt: new Date().toISOString(),
+      rawNames: rawToKey.size,
+      players: spellings.size,
+      merged: merged.sort((a, b) => a.name.localeCompare(b.name)),
+      ambiguous: ambiguous.sort((a, b) => b.games - a.games),
+      similar: findSimilarNames([...spellings.keys()]),
+    },
+  };
+}
+
+/**
+ * Pairs of surviving keys that are probably the same player spelled
+ * differently ("kasparov, garry" / "kasparov, gary"). Only keys sharing
+ * the first letter of surname and given name are compared, which keeps
+ * this cheap on large corpora.
+ */
+function findSimilarNames(keys: string[]): PlayerNameReview["similar"] {
+  const buckets = new Map<string, string[]>();
+  for (const key of keys) {
+    const { surname, given } = splitKey(key);
+    if (isInitialsOnly(given)) continue;
+    const bucket = `${surname[0]}|${given[0]?.[0] ?? ""}`;
+    const list = buckets.get(bucket) ?? [];
+    list.push(key);
+    buckets.set(bucket, list);
+  }
+
+  const similar: PlayerNameReview["similar"] = [];
+  for (const list of buckets.values()) {
+    list.sort();
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const a = list[i];
+        const b = list[j];
+        if (Math.abs(a.length - b.length) > 2 || a.length < 8) continue;
+        const distance = editDistance(a, b, 2);
+        if (distance <= 2) similar.push({ names: [a, b], distance });
+      }
+    }
+  }
+  return similar.sort((a, b) => a.distance - b.distance);
+}
+
+/** Levenshtein distance, giving up early once it exceeds `max` */
+function editDistance(a: string, b: string, max: number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const n of values) total += n;
+  return total;
+}
+
+function savePlayerNameReview(
+  review: PlayerNameReview,
+  reviewPath = PLAYER_REVIEW_PATH,
+): void {
+  fs.mkdirSync(path.dirname(reviewPath), { recursive: true });
+  fs.writeFileSync(reviewPath, JSON.stringify(review, null, 2));
+}
+
+export {
+  normalizePlayerName,
+  playerHashKey,
+  createPlayerNameResolver,
+  loadPlayerAliases,
+  canonicalizePlayers,
+  savePlayerNameReview,
+  PLAYER_ALIASES_PATH,
+  PLAYER_REVIEW_PATH,
+};
+export type { PlayerNameResolver, PlayerNameReview, PlayerCanonicalization };
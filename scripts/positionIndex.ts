@@ -0,0 +1,195 @@
+// Position index
+// opening-by-fen.json only knows the deepest eco.json position of each game.
+// This index records every position a game reaches in its first plies, keyed
+// by Zobrist hash so transpositions meet, and splits it into shards by hash
+// prefix, each small enough for one Netlify blob. The app hashes the board
+// it is showing, reads the manifest's prefix length and fetches one shard.
+
+import fs from "fs";
+import path from "path";
+import { ChessPGN } from "@chess-pgn/chess-pgn";
+import { parseSanMoves } from "./movetext.js";
+import { insertSortedId } from "./indexMerge.js";
+import type { GameDiff } from "./indexMerge.js";
+import { loadShards, saveShards, MAX_SHARD_BYTES } from "./shards.js";
+import type {
+  GameMetadata,
+  PositionIndex,
+  PositionIndexManifest,
+} from "./types.js";
+
+const POSITION_INDEX_MANIFEST = "position-index.json";
+const DEFAULT_POSITION_INDEX_PLIES = 30;
+// A fresh board every N games, as in enrichment (V8 keeps grown buffers)
+const RECYCLE_INTERVAL = 500;
+
+/**
+ * A game's replayed opening: the starting position's hash, then the hash
+ * after each ply up to the depth (shorter if the game ends or a move is
+ * illegal). The position index and the explorer both read these.
+ */
+interface GameReplay {
+  start: string;
+  positions: string[];
+}
+
+function gamePositions(
+  chess: ChessPGN,
+  game: GameMetadata,
+  plies: number,
+): GameReplay {
+  if (game.startFen) {
+    chess.load(game.startFen);
+  } else {
+    chess.reset();
+  }
+  const start = chess.hash();
+  const positions: string[] = [];
+  for (const move of parseSanMoves(game.moves).slice(0, plies)) {
+    try {
+      if (!chess.move(move)) break;
+    } catch {
+      break;
+    }
+    positions.push(chess.hash());
+  }
+  return { start, positions };
+}
+
+/**
+ * Replay games to the depth with a recycled board, keyed by game hash (idx
+ * is not unique). This is the slow part of indexing positions, so each
+ * build replays a game once.
+ */
+function replayGames(
+  games: GameMetadata[],
+  plies: number,
+): Map<string, GameReplay> {
+  console.log(`\n🎬 Replaying ${games.length} games (first ${plies} plies)...`);
+
+  const replays = new Map<string, GameReplay>();
+  let chess = new ChessPGN();
+  for (let i = 0; i < games.length; i++) {
+    if (i > 0 && i % RECYCLE_INTERVAL === 0) {
+      chess = new ChessPGN();
+      process.stdout.write(`\r  Replaying: ${i}/${games.length} games...`);
+    }
+    replays.set(games[i].hash, gamePositions(chess, games[i], plies));
+  }
+  if (games.length > RECYCLE_INTERVAL) process.stdout.write("\n");
+  return replays;
+}
+
+/**
+ * Add each game's positions; a position repeated within a game counts once
+ */
+function addGamePositions(
+  index: PositionIndex,
+  games: GameMetadata[],
+  replays: Map<string, GameReplay>,
+): void {
+  for (const game of games) {
+    for (const hash of replays.get(game.hash)?.positions ?? []) {
+      if (!index[hash]) index[hash] = [];
+      insertSortedId(index[hash], game.idx);
+    }
+  }
+}
+
+function buildPositionIndex(
+  games: GameMetadata[],
+  replays: Map<string, GameReplay>,
+): PositionIndex {
+  console.log("\n🧭 Building Position index...");
+
+  const index: PositionIndex = {};
+  addGamePositions(
+    index,
+    [...games].sort((a, b) => a.idx - b.idx),
+    replays,
+  );
+
+  console.log(`  ✅ Indexed ${Object.keys(index).length} unique positions`);
+  return index;
+}
+
+/**
+ * Merge new and changed games into the previous build's index (in place).
+ * Ids are removed by diff.removedIds and every game now at one of them is
+ * in diff.added, so games sharing an id keep their positions. Only the
+ * added games need replays.
+ */
+function mergePositionIndex(
+  index: PositionIndex,
+  diff: GameDiff,
+  replays: Map<string, GameReplay>,
+): PositionIndex {
+  console.log(
+    `\n🧭 Merging ${diff.added.length} games into the Position index...`,
+  );
+
+  if (diff.removedIds.size > 0) {
+    for (const [hash, ids] of Object.entries(index)) {
+      if (!ids.some((idx) => diff.removedIds.has(idx))) continue;
+      const kept = ids.filter((idx) => !diff.removedIds.has(idx));
+      if (kept.length > 0) index[hash] = kept;
+      else delete index[hash];
+    }
+  }
+  addGamePositions(index, diff.added, replays);
+
+  console.log(`  ✅ Indexed ${Object.keys(index).length} unique positions`);
+  return index;
+}
+
+/**
+ * Write the shards; returns the manifest, which the caller writes with the
+ * other indexes
+ */
+function savePositionIndex(
+  index: PositionIndex,
+  indexesDir: string,
+  plies: number,
+  { skipUnchanged = false, maxShardBytes = MAX_SHARD_BYTES } = {},
+): PositionIndexManifest {
+  const { prefixLength, shards } = saveShards(index, indexesDir, "position", {
+    skipUnchanged,
+    maxShardBytes,
+  });
+  return {
+    version: 1,
+    plies,
+    prefixLength,
+    totalPositions: Object.keys(index).length,
+    shards,
+  };
+}
+
+/**
+ * The previous build's index, or null if it is missing, incomplete or was
+ * built to a different depth
+ */
+function loadPositionIndex(
+  indexesDir: string,
+  plies: number,
+): PositionIndex | null {
+  const manifestPath = path.join(indexesDir, POSITION_INDEX_MANIFEST);
+  if (!fs.existsSync(manifestPath)) return null;
+  const manifest: PositionIndexManifest = JSON.parse(
+    fs.readFileSync(manifestPath, "utf-8"),
+  );
+  if (manifest.plies !== plies) return null;
+  return loadShards(indexesDir, "position", Object.keys(manifest.shards));
+}
+
+export {
+  gamePositions,
+  replayGames,
+  buildPositionIndex,
+  mergePositionIndex,
+  savePositionIndex,
+  loadPositionIndex,
+  POSITION_INDEX_MANIFEST,
+  DEFAULT_POSITION_INDEX_PLIES,
+};
+export type { GameReplay };
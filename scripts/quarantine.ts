@@ -0,0 +1,120 @@
+// Quarantine store
+// Games that throw while being parsed during ingest, or whose moves fail to
+// replay during eco.json enrichment, are written here with their raw PGN and
+// the failure reason instead of only being counted. `npm run quarantine:retry`
+// re-attempts them after parser fixes.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { GameMetadata, QuarantineEntry } from "./types.js";
+
+const QUARANTINE_PATH = "./data/quarantine/quarantine.jsonl";
+
+function quarantineId(stage: QuarantineEntry["stage"], pgn: string): string {
+  return crypto.createHash("sha256").update(`${stage}|${pgn}`).digest("hex");
+}
+
+/**
+ * Read every entry (one JSON object per line)
+ */
+function loadQuarantine(quarantinePath = QUARANTINE_PATH): QuarantineEntry[] {
+  if (!fs.existsSync(quarantinePath)) return [];
+  return fs
+    .readFileSync(quarantinePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Replace the whole store (via a temp file, like chunks and journals)
+ */
+function saveQuarantine(
+  entries: QuarantineEntry[],
+  quarantinePath = QUARANTINE_PATH,
+): void {
+  fs.mkdirSync(path.dirname(quarantinePath), { recursive: true });
+  const tmpPath = `${quarantinePath}.tmp`;
+  fs.writeFileSync(
+    tmpPath,
+    entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+  );
+  fs.renameSync(tmpPath, quarantinePath);
+}
+
+/**
+ * Append entries not already in the store; returns how many were added.
+ * A game that fails again on a later run keeps its first entry.
+ */
+function appendQuarantine(
+  entries: QuarantineEntry[],
+  quarantinePath = QUARANTINE_PATH,
+): number {
+  if (entries.length === 0) return 0;
+  const known = new Set(loadQuarantine(quarantinePath).map((e) => e.id));
+  const added = entries.filter((entry) => {
+    if (known.has(entry.id)) return false;
+    known.add(entry.id);
+    return true;
+  });
+  if (added.length === 0) return 0;
+
+  fs.mkdirSync(path.dirname(quarantinePath), { recursive: true });
+  fs.appendFileSync(
+    quarantinePath,
+    added.map((entry) => JSON.stringify(entry) + "\n").join(""),
+  );
+  return added.length;
+}
+
+/**
+ * Replace every entry of one stage. Enrichment re-attempts all unenriched
+ * games on each build, so its entries are rewritten rather than appended.
+ */
+function replaceQuarantineStage(
+  stage: QuarantineEntry["stage"],
+  entries: QuarantineEntry[],
+  quarantinePath = QUARANTINE_PATH,
+): void {
+  const kept = loadQuarantine(quarantinePath).filter((e) => e.stage !== stage);
+  if (kept.length === 0 && entries.length === 0) {
+    if (fs.existsSync(quarantinePath)) fs.rmSync(quarantinePath);
+    return;
+  }
+  saveQuarantine([...kept, ...entries], quarantinePath);
+}
+
+/**
+ * PGN for a game already in chunks, rebuilt from its metadata
+ */
+function gameToPgn(game: GameMetadata): string {
+  const tags: [string, string | undefined][] = [
+    ["Event", game.event],
+    ["Site", game.site],
+    ["Date", game.date],
+    ["Round", game.round],
+    ["White", game.white],
+    ["Black", game.black],
+    ["Result", game.result],
+    ["SetUp", game.startFen ? "1" : undefined],
+    ["FEN", game.startFen],
+    ["WhiteElo", game.whiteElo ? String(game.whiteElo) : undefined],
+    ["BlackElo", game.blackElo ? String(game.blackElo) : undefined],
+    ["ECO", game.eco],
+  ];
+  const headers = tags
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `[${name} "${value!.replace(/"/g, '\\"')}"]`);
+  return `${headers.join("\n")}\n\n${game.moves}`;
+}
+
+export {
+  quarantineId,
+  loadQuarantine,
+  saveQuarantine,
+  appendQuarantine,
+  replaceQuarantineStage,
+  gameToPgn,
+  QUARANTINE_PATH,
+};
@@ -10,7 +10,8 @@
  *   3. Sorts games by hash (deterministic, stable order)
  *   4. Re-slices into chunks of CHUNK_SIZE
  *   5. Writes new chunk-*.json files (deletes old ones if count changed)
- *   6. Rewrites master-index.json
+ *   6. Regroups annotations-*.json side files to match the new chunks
+ *   7. Rewrites master-index.json
  *
  * After running this, run upload to push all chunks to production once.
  * Going forward, buildIndexes will also sort by hash so new games only ever
@@ -125,7 +126,46 @@ async function rechunk(): Promise<void> {
     console.log(`  ✅ chunk-${chunk.chunkId}.json`);
   }
 
-  // 7. Rewrite master-index.json
+  // 7. Clock/eval side files are keyed by hash; regroup them per new chunk.
+  // Every new file is in place (temp file + rename) before any stale one is
+  // deleted, so an interrupted run loses no annotations.
+  const annotationFiles = fs
+    .readdirSync(INDEXES_DIR)
+    .filter((f) => f.startsWith("annotations-") && f.endsWith(".json"));
+  if (annotationFiles.length > 0) {
+    const annotations: Record<string, unknown> = {};
+    for (const f of annotationFiles) {
+      Object.assign(
+        annotations,
+        JSON.parse(fs.readFileSync(path.join(INDEXES_DIR, f), "utf-8")),
+      );
+    }
+    const written = new Set<string>();
+    for (const chunk of newChunks) {
+      const entries = chunk.games
+        .filter((g) => annotations[g.hash])
+        .map((g) => [g.hash, annotations[g.hash]]);
+      if (entries.length === 0) continue;
+      const file = `annotations-${chunk.chunkId}.json`;
+      const annotationsPath = path.join(INDEXES_DIR, file);
+      const tmpPath = `${annotationsPath}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        JSON.stringify(Object.fromEntries(entries), null, 2),
+      );
+      fs.renameSync(tmpPath, annotationsPath);
+      written.add(file);
+      console.log(`  ✅ ${file}`);
+    }
+    for (const f of annotationFiles) {
+      if (!written.has(f)) {
+        fs.unlinkSync(path.join(INDEXES_DIR, f));
+        console.log(`  🗑️  Removed stale ${f}`);
+      }
+    }
+  }
+
+  // 8. Rewrite master-index.json
   const masterIndex = {
     version: "1.0",
     totalGames: deduped.length,
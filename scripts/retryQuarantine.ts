@@ -0,0 +1,144 @@
+// Re-attempt quarantined games after parser fixes
+// Ingest-stage games are parsed again against the current dedup index and
+// appended to chunks when they now import. Enrich-stage games are replayed;
+// the ones that now replay are released for the next build-indexes run.
+
+import path from "path";
+import { ChessPGN } from "@chess-pgn/chess-pgn";
+import {
+  loadExistingChunksData,
+  processGames,
+  saveGamesToChunks,
+  writeJsonAtomic,
+  INDEXES_DIR,
+} from "./ingest.js";
+import { replayMoves } from "./buildIndexes.js";
+import { parseSanMoves } from "./movetext.js";
+import { createPlayerNameResolver, loadPlayerAliases } from "./playerNames.js";
+import {
+  loadQuarantine,
+  saveQuarantine,
+  QUARANTINE_PATH,
+} from "./quarantine.js";
+import type { GameMetadata, QuarantineEntry } from "./types.js";
+
+interface RetryResult {
+  imported: number; // Ingest entries now accepted into chunks
+  dropped: number; // Ingest entries that now parse but are filtered or duplicates
+  released: number; // Enrich entries whose moves now replay
+  stillFailing: number;
+}
+
+async function retryQuarantine(
+  quarantinePath = QUARANTINE_PATH,
+  indexesDir = INDEXES_DIR,
+): Promise<RetryResult> {
+  const result: RetryResult = {
+    imported: 0,
+    dropped: 0,
+    released: 0,
+    stillFailing: 0,
+  };
+
+  const entries = loadQuarantine(quarantinePath);
+  console.log(`🧪 Retrying ${entries.length} quarantined games\n`);
+  if (entries.length === 0) return result;
+
+  const playerNames = createPlayerNameResolver(loadPlayerAliases());
+  const existing = loadExistingChunksData(indexesDir, playerNames);
+  const { deduplicationIndex } = existing;
+  let nextGameId = existing.maxGameId + 1;
+
+  const accepted: GameMetadata[] = [];
+  const remaining: QuarantineEntry[] = [];
+  const chess = new ChessPGN();
+
+  for (const entry of entries) {
+    if (entry.stage === "ingest") {
+      const quarantine = {
+        runId: entry.runId,
+        entries: [] as QuarantineEntry[],
+      };
+      const { games, nextIndex } = await processGames(
+        entry.pgn,
+        entry.sourceFile,
+        deduplicationIndex,
+        nextGameId,
+        {
+          source: entry.source,
+          filterOptions: entry.filterOptions ?? {},
+          playerNames,
+          quarantine,
+        },
+      );
+
+      if (quarantine.entries.length > 0) {
+        remaining.push({ ...entry, reason: quarantine.entries[0].reason });
+        result.stillFailing++;
+      } else if (games.length > 0) {
+        accepted.push(...games);
+        nextGameId = nextIndex;
+        result.imported++;
+      } else {
+        result.dropped++;
+      }
+    } else {
+      try {
+        const startFen = entry.pgn.match(/^\[FEN "([^"]+)"\]/m)?.[1];
+        if (startFen) {
+          chess.load(startFen);
+        } else {
+          chess.reset();
+        }
+        replayMoves(chess, parseSanMoves(entry.pgn));
+        result.released++;
+      } catch (error) {
+        remaining.push({
+          ...entry,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        result.stillFailing++;
+      }
+    }
+  }
+
+  if (accepted.length > 0) {
+    saveGamesToChunks(accepted, indexesDir, existing.lastChunk);
+    writeJsonAtomic(
+      path.join(indexesDir, "deduplication-index.json"),
+      deduplicationIndex,
+    );
+  }
+  saveQuarantine(remaining, quarantinePath);
+
+  console.log("\n" + "=".repeat(60));
+  console.log("📊 Quarantine Retry Complete");
+  console.log("=".repeat(60));
+  console.log(`Imported into chunks: ${result.imported}`);
+  console.log(`Parsed but filtered/duplicate: ${result.dropped}`);
+  console.log(`Moves now replay (enriched on next build): ${result.released}`);
+  console.log(`Still failing: ${result.stillFailing}`);
+  console.log("=".repeat(60));
+  if (result.imported > 0) {
+    console.log("\nNext step: npm run build-indexes");
+  }
+
+  return result;
+}
+
+// Run if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  retryQuarantine()
+    .then(() => {
+      console.log("✅ Quarantine retry complete!");
+      // Explicit exit to ensure process terminates cleanly
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("❌ Failed:", error);
+      process.exit(1);
+    });
+}
+
+export { retryQuarantine };
+export type { RetryResult };
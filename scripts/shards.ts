@@ -0,0 +1,134 @@
+// Hash-prefix shards
+// Indexes keyed by a hex position hash are too big for one Netlify blob, so
+// they are split by the leading digits of the key. The prefix grows until
+// every shard fits; a reader needs only the prefix length to find a key.
+
+import fs from "fs";
+import path from "path";
+
+const MAX_SHARD_BYTES = 4 * 1024 * 1024; // Same headroom as chunks (5 MB blobs)
+
+interface SavedShards {
+  prefixLength: number;
+  shards: { [prefix: string]: { blobKey: string; positions: number } };
+}
+
+/**
+ * Split by key prefix, lengthening the prefix until every shard fits. A
+ * single key too big for a shard can't be split further: its shard is kept
+ * whole and reported, since the upload may reject it.
+ */
+function shardByPrefix<T>(
+  index: { [hash: string]: T },
+  maxShardBytes = MAX_SHARD_BYTES,
+): { prefixLength: number; shards: Map<string, { [hash: string]: T }> } {
+  const hashes = Object.keys(index).sort();
+  const hashLength = hashes[0]?.length ?? 1;
+
+  for (let prefixLength = 1; ; prefixLength++) {
+    const shards = new Map<string, { [hash: string]: T }>();
+    for (const hash of hashes) {
+      const prefix = hash.slice(0, prefixLength);
+      if (!shards.has(prefix)) shards.set(prefix, {});
+      shards.get(prefix)![hash] = index[hash];
+    }
+    const oversized = [...shards].filter(
+      ([, shard]) => Buffer.byteLength(JSON.stringify(shard)) > maxShardBytes,
+    );
+    if (oversized.length === 0) return { prefixLength, shards };
+    if (prefixLength >= hashLength) {
+      for (const [prefix, shard] of oversized) {
+        const bytes = Buffer.byteLength(JSON.stringify(shard));
+        console.warn(
+          `  ⚠️  Shard ${prefix} is ${bytes} bytes, over the ${maxShardBytes} byte limit, with no shorter key to split on`,
+        );
+      }
+      return { prefixLength, shards };
+    }
+  }
+}
+
+/**
+ * Write `<name>-shard-<prefix>.json` files (compact JSON) and delete shards
+ * of the same name left over from another prefix length. With
+ * skipUnchanged, identical shards aren't rewritten.
+ */
+function saveShards<T>(
+  index: { [hash: string]: T },
+  indexesDir: string,
+  name: string,
+  { skipUnchanged = false, maxShardBytes = MAX_SHARD_BYTES } = {},
+): SavedShards {
+  const { prefixLength, shards } = shardByPrefix(index, maxShardBytes);
+  const saved: SavedShards = { prefixLength, shards: {} };
+
+  let written = 0;
+  for (const [prefix, shard] of shards) {
+    const file = `${name}-shard-${prefix}.json`;
+    const shardPath = path.join(indexesDir, file);
+    const json = JSON.stringify(shard);
+    saved.shards[prefix] = {
+      blobKey: `indexes/${file}`,
+      positions: Object.keys(shard).length,
+    };
+    if (
+      skipUnchanged &&
+      fs.existsSync(shardPath) &&
+      fs.readFileSync(shardPath, "utf-8") === json
+    ) {
+      continue;
+    }
+    fs.writeFileSync(shardPath, json);
+    written++;
+  }
+
+  const pattern = new RegExp(`^${name}-shard-(\\w+)\\.json$`);
+  for (const file of fs.readdirSync(indexesDir)) {
+    const prefix = file.match(pattern)?.[1];
+    if (prefix !== undefined && !shards.has(prefix)) {
+      fs.rmSync(path.join(indexesDir, file));
+    }
+  }
+
+  console.log(
+    `  ✅ ${name}-shard-*.json (${shards.size} shards, ${written} written)`,
+  );
+  return saved;
+}
+
+/**
+ * Read every shard listed in a manifest back into one index; null if any
+ * is missing
+ */
+function loadShards<T>(
+  indexesDir: string,
+  name: string,
+  prefixes: string[],
+): { [hash: string]: T } | null {
+  const index: { [hash: string]: T } = {};
+  for (const prefix of prefixes) {
+    const shardPath = path.join(indexesDir, `${name}-shard-${prefix}.json`);
+    if (!fs.existsSync(shardPath)) return null;
+    Object.assign(index, JSON.parse(fs.readFileSync(shardPath, "utf-8")));
+  }
+  return index;
+}
+
+/**
+ * Total size of the shards listed in a manifest, for the size report
+ */
+function shardBytes(
+  indexesDir: string,
+  name: string,
+  prefixes: string[],
+): number {
+  return prefixes.reduce(
+    (sum, prefix) =>
+      sum +
+      fs.statSync(path.join(indexesDir, `${name}-shard-${prefix}.json`)).size,
+    0,
+  );
+}
+
+export { shardByPrefix, saveShards, loadShards, shardBytes, MAX_SHARD_BYTES };
+export type { SavedShards };
@@ -15,15 +15,21 @@ export interface GameMetadata {
   date: string;
   event: string;
   site: string;
+  round?: string; // Round header as-is, e.g. "3" or "3.1" (absent on older imports)
   eco?: string; // ECO code from PGN header
   opening?: string; // Opening name from PGN header
   variation?: string; // Variation from PGN header
   subVariation?: string; // SubVariation from PGN header
   moves: string; // SAN move sequence (space-separated, no move numbers)
   ply: number; // Half-moves
-  source: "pgnmentor" | "lichess-elite";
+  source: string; // SourceAdapter id, e.g. "pgnmentor", "lichess-elite", "twic"
   sourceFile: string;
   hash: string; // SHA-256 for deduplication
+  movesHash?: string; // SHA-256 of players + normalized moves (absent for games without moves)
+  startFen?: string; // FEN header of a set-up position game (absent for the standard start)
+  timeClass?: TimeClass; // From the TimeControl header, else the event name (set by ingest, backfilled by buildIndexes)
+  termination?: Termination; // How the game ended (set by buildIndexes; "timeout" from a Termination header at ingest)
+  resultIssue?: string; // Result header contradicts the final position (see data-quality report)
 
   // =========================================================================
   // OPENING INDEX FIELDS (populated by buildIndexes.ts from eco.json lookup)
@@ -47,6 +53,9 @@ export interface GameMetadata {
 
   /** How many half-moves back from the game's end position was this opening found */
   movesBack?: number;
+
+  /** ENRICH_VERSION of the last enrichment attempt (matched or not); buildIndexes skips games at the current version */
+  enrichVersion?: number;
 }
 
 /**
@@ -56,7 +65,7 @@ export interface GameMetadata {
 /**
  * Game chunk structure - supports both simple and full metadata formats
  *
- * Simple format (downloadPgnmentor.ts): { games: [] }
+ * Simple format (ingest.ts saveGamesToChunks): { games: [] }
  *   - Written during incremental downloads
  *   - Only chunks with game changes are uploaded
  *
@@ -124,22 +133,49 @@ export interface OpeningByEcoIndex {
 
 /**
  * Player index
- * Maps player names to games where they played as white/black
+ * Maps lowercased canonical player names to games where they played as white/black
  */
 export interface PlayerIndex {
   [playerName: string]: {
+    name: string; // Canonical display name, e.g. "Carlsen, Magnus"
+    variants: string[]; // Raw header spellings folded into this player
     asWhite: number[];
     asBlack: number[];
     totalGames: number;
   };
 }
 
+/**
+ * Player alias registry (data/player-aliases.json, hand-edited)
+ * Maps a canonical player name to the spellings that should resolve to it
+ */
+export interface PlayerAliases {
+  [canonicalName: string]: string[];
+}
+
 /**
  * Event/tournament index
- * Maps event names to game indices
+ * Maps a canonical event id (e.g. "tata-steel-masters-2024") to the
+ * tournament's metadata and games
  */
 export interface EventIndex {
-  [eventName: string]: number[];
+  [eventId: string]: {
+    name: string; // Canonical display name
+    year: string | null; // null when no game has a known date
+    site: string; // Most common Site header
+    rounds: { first: number; last: number } | null; // null when no numeric rounds
+    variants: string[]; // Raw Event header spellings folded into this event
+    players: string[]; // Canonical player names
+    games: number[];
+  };
+}
+
+/**
+ * Event alias registry (data/event-aliases.json, hand-edited)
+ * Maps a canonical event name to the spellings that should resolve to it
+ */
+export interface EventAliases {
+  [canonicalName: string]: string[];
 }
 
 /**
@@ -150,34 +186,499 @@ export interface DateIndex {
   [year: string]: number[];
 }
 
+/**
+ * Set-up position index
+ * Maps the starting FEN of set-up position games to game indices.
+ * These games are kept out of the opening indexes.
+ */
+export interface SetupPositionIndex {
+  [startFen: string]: number[];
+}
+
+/**
+ * Time class index
+ * Maps each time class to game indices, to filter openings by format
+ */
+export type TimeClassIndex = {
+  [timeClass in TimeClass]?: number[];
+};
+
+/**
+ * Position index
+ * Maps the Zobrist hash of every position a game passes through (up to the
+ * manifest's ply depth) to game indices. The hash covers pieces, side to
+ * move, castling and en passant but not the move clocks, so transpositions
+ * share a key. Stored as shards by hash prefix.
+ */
+export interface PositionIndex {
+  [positionHash: string]: number[];
+}
+
+/**
+ * position-index.json: how the position index is sharded. A position's
+ * shard is the first `prefixLength` hex digits of its hash.
+ */
+export interface PositionIndexManifest {
+  version: number;
+  plies: number; // Positions after plies 1..plies of each game
+  prefixLength: number;
+  totalPositions: number;
+  shards: {
+    [prefix: string]: { blobKey: string; positions: number };
+  };
+}
+
+/**
+ * Explorer move lists, a local cache (not uploaded): position hash → SAN →
+ * hashes of the games that played that move there (idx is not unique).
+ * Builds merge changed games into it and compute the published explorer
+ * from it.
+ */
+export interface ExplorerMoveCache {
+  version: number;
+  plies: number; // Moves from the positions before plies 1..plies
+  positions: {
+    [positionHash: string]: { [san: string]: string[] };
+  };
+}
+
+/**
+ * Opening explorer, keyed by the same Zobrist hash as the position index.
+ * Counts only games with a 1-0, 0-1 or 1/2-1/2 result.
+ */
+export interface ExplorerTree {
+  [positionHash: string]: ExplorerPosition;
+}
+
+export interface ExplorerPosition {
+  games: number;
+  white: number;
+  draws: number;
+  black: number;
+  moves: ExplorerMove[]; // Most played first
+  topGames: ExplorerGameRef[]; // Highest rated first
+}
+
+export interface ExplorerMove {
+  san: string;
+  games: number;
+  white: number;
+  draws: number;
+  black: number;
+  averageElo?: number; // Mean rating of the rated players (absent if none)
+}
+
+export interface ExplorerGameRef {
+  idx: number;
+  move: string; // SAN played from this position
+  white: string;
+  black: string;
+  whiteElo?: number;
+  blackElo?: number;
+  result: string;
+  year?: string;
+}
+
+/**
+ * explorer-index.json: the explorer's settings and shards. A position's
+ * shard is the first `prefixLength` hex digits of its hash.
+ */
+export interface ExplorerManifest {
+  version: number;
+  plies: number;
+  minGames: number; // Positions reached by fewer games are left out
+  topGames: number;
+  prefixLength: number;
+  totalPositions: number;
+  shards: {
+    [prefix: string]: { blobKey: string; positions: number };
+  };
+}
+
+/**
+ * index-build-state.json, saved by every buildIndexes run: each game's idx
+ * and a fingerprint of its index fields, by game hash (idx is not unique).
+ * The next incremental build merges only games whose fingerprint is new or
+ * differs.
+ */
+export interface IndexBuildState {
+  version: number;
+  builtAt: string;
+  fingerprints: { [gameHash: string]: [idx: number, fingerprint: string] };
+}
+
+/**
+ * The indexes an incremental build merges rather than rebuilds: each maps
+ * keys taken from one game's own fields to game ids. Player and event
+ * indexes use canonical names resolved across all games, so they are
+ * always rebuilt.
+ */
+export interface MergeableIndexes {
+  openingByFen: OpeningByFenIndex;
+  openingByName: OpeningByNameIndex;
+  openingByEco: OpeningByEcoIndex;
+  date: DateIndex;
+  setupPositions: SetupPositionIndex;
+  timeClasses: TimeClassIndex;
+  gameToPlayers: ([string, string] | null)[]; // By idx
+}
+
 /**
  * Deduplication index
- * Maps SHA-256 hashes to game indices
+ * Maps SHA-256 header hashes and move-content hashes to game indices
  */
 export interface DeduplicationIndex {
-  [hash: string]: number; // Hash → game index
+  headers: { [hash: string]: number }; // Header hash → game index
+  moves: { [movesHash: string]: number }; // Move-content hash → game index
+}
+
+/**
+ * How a header/moves hash disagreement is resolved (DEDUP_POLICY env)
+ *
+ * - "either": a match on either hash is a duplicate (default)
+ * - "headers": only the header hash decides (pre-move-hash behavior)
+ * - "moves": the move hash decides; a header match with different moves
+ *   is imported as a separate game
+ */
+export type DedupPolicy = "either" | "headers" | "moves";
+
+/**
+ * Header fields compared between a rejected duplicate and the game it matched
+ */
+export interface DuplicateFields {
+  white: string;
+  black: string;
+  event: string;
+  site: string;
+  date: string;
+  round?: string;
+  result: string;
+}
+
+/**
+ * One rejected duplicate, recorded during ingest
+ *
+ * - "exact": header hash matched and the moves matched too (or there were none)
+ * - "near-duplicate": moves matched an existing game, headers did not
+ * - "header-collision": header hash matched but the moves differ, so the
+ *   dedup key may have thrown away a real game
+ */
+export interface DuplicateRecord {
+  kind: "exact" | "near-duplicate" | "header-collision";
+  sourceFile: string;
+  existingIdx: number;
+  existingHash?: string; // Known when the header hash matched
+  movesHash?: string;
+  incoming: DuplicateFields;
+  existing?: DuplicateFields & { sourceFile: string }; // Filled in by DedupRecorder.finish()
+  differences?: string[]; // Field names that differ, incl. "moves"
+}
+
+/**
+ * Per-run roll-up of every duplicate the dedup index rejected
+ * (data/reports/dedup/<trackingKey>-<startedAt>.json)
+ */
+export interface DedupReport {
+  adapterId: string;
+  trackingKey: string;
+  startedAt: string;
+  generatedAt: string;
+  policy: DedupPolicy;
+  totals: DuplicateCounts;
+  byFile: { [sourceFile: string]: DuplicateCounts };
+  byDifference: { [fields: string]: number }; // e.g. "event,round" → count
+  recordsFile: string; // <trackingKey>-<startedAt>.jsonl, one record per line
+  // The first records of each kind worth reviewing, for the Markdown summary
+  samples: {
+    headerCollision: DuplicateRecord[];
+    nearDuplicate: DuplicateRecord[];
+  };
+}
+
+/**
+ * How a game ended. Position-based values (mate, stalemate,
+ * insufficient-material) are certain; the rest come from headers,
+ * comments or the result.
+ */
+export type Termination =
+  | "mate"
+  | "stalemate"
+  | "insufficient-material"
+  | "repetition"
+  | "fifty-move"
+  | "timeout"
+  | "resignation"
+  | "draw-agreement";
+
+/**
+ * data/reports/data-quality.json, rewritten by every build-indexes run
+ */
+export interface DataQualityReport {
+  generatedAt: string;
+  games: number;
+  unverified: number; // No termination yet (unreplayable, no moves or "*")
+  terminations: { [termination in Termination]?: number };
+  mismatches: {
+    idx: number;
+    hash: string;
+    white: string;
+    black: string;
+    event: string;
+    date: string;
+    result: string;
+    termination: Termination;
+    issue: string;
+    sourceFile: string;
+  }[];
+}
+
+export interface DuplicateCounts {
+  exact: number;
+  nearDuplicate: number;
+  headerCollision: number;
+}
+
+/**
+ * Clock and eval values per main-line ply, from [%clk] / [%eval] comments.
+ * Each array has one slot per move; null where the move had no value.
+ * Kept out of chunks, in annotations-<chunkId>.json beside each chunk.
+ */
+export interface MoveAnnotations {
+  clk?: (number | null)[]; // Clock after the move, in seconds
+  eval?: (number | string | null)[]; // Centipawns (White's view), or "#3" / "#-3" for mate
+}
+
+/**
+ * annotations-<chunkId>.json: game hash → annotations
+ */
+export interface AnnotationsFile {
+  [hash: string]: MoveAnnotations;
+}
+
+/**
+ * Per-file (or per-archive-entry) ingest counts
+ */
+export interface IngestStats {
+  total: number;
+  accepted: number;
+  rejected: number;
+  duplicates: number;
+  quarantined?: number; // Rejected games kept in the quarantine store (absent in older journals)
+  rejections?: RejectionCounts; // Rejected games by reason (once any were rejected)
+}
+
+/**
+ * Why a game was rejected: a filter rule (from shouldImportGame), or a game
+ * that never reached the filters
+ */
+export type RejectionReason = FilterRule | "oversized" | "parseError";
+
+export type RejectionCounts = { [reason in RejectionReason]?: number };
+
+/**
+ * A game that failed to parse (ingest) or whose moves would not replay
+ * (enrich), kept with its raw PGN in data/quarantine/quarantine.jsonl
+ */
+export interface QuarantineEntry {
+  id: string; // sha256 of stage + PGN; the same failure is stored once
+  stage: "ingest" | "enrich";
+  reason: string; // Error message from the parser or chess.move()
+  runId: string; // "<trackingKey>@<startedAt>" or "build-indexes@<time>"
+  source: string; // Adapter id
+  sourceFile: string;
+  line?: number; // Line the game starts on in the source PGN (ingest)
+  filterOptions?: FilterOptions; // Source filters to re-apply on retry (ingest)
+  idx?: number; // Game id in chunks (enrich)
+  hash?: string; // Game hash (enrich)
+  pgn: string;
+  quarantinedAt: string;
 }
 
 /**
  * Source tracking metadata
  * Tracks downloaded files and their metadata for incremental updates
  */
+export interface TrackedFile {
+  filename: string;
+  url: string;
+  lastModified?: string;
+  etag?: string;
+  downloadDate?: string;
+  gameCount?: number;
+  issue?: number; // TWIC issue number
+  contentHash?: string; // SHA-256 of file content (local imports)
+  rejections?: RejectionCounts; // Rejected games by reason (omitted when none)
+  entries?: {
+    [entryName: string]: IngestStats; // Per-entry stats for archives
+  };
+}
+
+/**
+ * Totals of the latest run for a source, for the workflow UI
+ */
+export interface SourceRunSummary {
+  runId: string; // "<trackingKey>@<startedAt>", as in quarantine entries
+  startedAt: string;
+  completedAt: string;
+  files: string[]; // Files processed by the run, in order
+  stats: IngestStats;
+}
+
 export interface SiteSourceTracking {
   lastPageVisit?: string;
+  lastRun?: SourceRunSummary;
   files: {
-    [filename: string]: {
-      filename: string;
-      url: string;
-      lastModified?: string;
-      etag?: string;
-      downloadDate?: string;
-      gameCount?: number;
-    };
+    [filename: string]: TrackedFile;
   };
 }
 
+/**
+ * One section per SourceAdapter, keyed by adapter.trackingKey
+ */
 export interface SourceTracking {
   pgnmentor?: SiteSourceTracking;
   lichess?: SiteSourceTracking;
   twic?: SiteSourceTracking;
+  [trackingKey: string]: SiteSourceTracking | undefined;
+}
+
+/**
+ * Durable checkpoint of a runIngest() call, one per source
+ * (data/pgn-downloads/run-journal-<trackingKey>.json)
+ */
+export interface RunJournal {
+  adapterId: string;
+  trackingKey: string;
+  status: "running" | "complete";
+  startedAt: string;
+  updatedAt: string;
+  files: SourceFile[]; // Files planned for this run, in processing order
+  completedFiles: string[]; // Filenames saved to chunks and tracking
+  currentFile?: string; // File being processed when last checkpointed
+  nextGameId: number;
+  lastChunk: { id: number; gameCount: number } | null;
+  stats: IngestStats; // Cumulative over completed files, across resumes
+  inputs?: RunInputs; // Missing in journals from before inputs were stored
+}
+
+/**
+ * What a run reads: its mode plus the adapter's own inputs (e.g. local
+ * paths). A journal is only resumed by a run with the same inputs.
+ */
+export type RunInputs = Record<string, string | string[] | boolean>;
+
+/**
+ * Filtering options passed to shouldImportGame()
+ */
+export interface FilterOptions {
+  requireTitles?: boolean;
+  requireElo?: boolean;
+  allowFenSetups?: boolean; // Import games with a FEN header (GameMetadata.startFen)
+  profile?: FilterProfile; // Replaces the requireTitles/requireElo rules when set
+}
+
+/**
+ * Time-control class, from base time plus 40 increments (Lichess buckets)
+ */
+export type TimeClass =
+  "bullet" | "blitz" | "rapid" | "classical" | "correspondence" | "unknown";
+
+/**
+ * A named set of filter rules from data/filter-profiles.json.
+ * Every rule is optional. Unknown time controls and dates pass; a missing
+ * Elo counts as 0.
+ */
+export interface FilterProfile {
+  name?: string;
+  elo?: { min: number; sides?: "both" | "either" }; // Default: both
+  titles?: { allowed?: string[]; sides?: "both" | "either" }; // Default: FIDE titles, both
+  timeControl?: { minBaseSeconds?: number; classes?: TimeClass[] };
+  dates?: { from?: string; to?: string }; // PGN dates, inclusive
+  events?: { include?: string[]; exclude?: string[] }; // Case-insensitive regexes
+  minPly?: number;
+  excludeForfeits?: boolean; // Termination "forfeit"/"abandoned", or decisive with no moves
+  shortDrawMoves?: number; // Reject draws shorter than this many moves
+}
+
+/**
+ * Filter rules: the fixed ones (variant, fenSetup, unfinished) and one per
+ * FilterProfile key
+ */
+export type FilterRule =
+  | "variant"
+  | "fenSetup"
+  | "unfinished"
+  | "elo"
+  | "titles"
+  | "timeControl"
+  | "dates"
+  | "events"
+  | "minPly"
+  | "forfeit"
+  | "shortDraw";
+
+/**
+ * shouldImportGame() result; `detail` names the header values that failed
+ */
+export type FilterVerdict =
+  { accepted: true } | { accepted: false; rule: FilterRule; detail: string };
+
+/**
+ * data/filter-profiles.json: profiles by name, and the profile each source uses.
+ * Sources not listed keep their adapter's requireTitles/requireElo toggles.
+ */
+export interface FilterProfiles {
+  profiles: { [name: string]: FilterProfile };
+  sources: { [sourceId: string]: string };
+}
+
+/**
+ * A file offered by a source (player zip, monthly archive, weekly issue...)
+ * Metadata fields mirror TrackedFile so a processed file can be recorded as-is.
+ */
+export interface SourceFile {
+  filename: string; // Tracking key and local download filename
+  url: string;
+  lastModified?: string;
+  etag?: string;
+  issue?: number;
+  contentHash?: string;
+}
+
+/**
+ * A PGN document yielded from a fetched source file, as a byte stream.
+ * The ingest engine splits it into games incrementally (pgnStream.ts).
+ */
+export interface PgnText {
+  entryName?: string; // Path inside the archive; omitted for single-file sources
+  stream: AsyncIterable<Buffer | string>;
+}
+
+/**
+ * Source adapter - everything source-specific about a downloader.
+ * The shared ingest engine (ingest.ts) handles filtering, hashing,
+ * id assignment, chunk writing and source tracking.
+ */
+export interface SourceAdapter {
+  id: string; // Written to GameMetadata.source
+  trackingKey: string; // Section in source-tracking.json
+  label: string; // Human-readable name for logs
+  throttleMs: number; // Delay between file fetches
+  filterOptions: FilterOptions;
+  inputs?: RunInputs; // Options that change which files a run reads
+
+  /** List every file the source currently offers */
+  discover(): Promise<SourceFile[]>;
+
+  /** Narrow discovered files to those new or changed since last tracked */
+  checkForChanges(
+    files: SourceFile[],
+    tracking: SiteSourceTracking,
+  ): Promise<SourceFile[]>;
+
+  /** Fetch a file to local disk; returns the local path or null on failure */
+  fetch(file: SourceFile): Promise<string | null>;
+
+  /** Yield the PGN text(s) contained in a fetched file */
+  readPgn(localPath: string): AsyncIterable<PgnText>;
 }
@@ -338,15 +338,19 @@ async function uploadToBlobs() {
 
         for (const game of chunkData.games) {
           if (game.source === "pgnmentor" && game.sourceFile) {
-            if (!sourceFileMap.has(game.sourceFile)) {
-              sourceFileMap.set(game.sourceFile, {
-                filename: game.sourceFile,
-                url: `https://www.pgnmentor.com/players/${game.sourceFile}`,
+            // sourceFile is "<zip>:<entry>" - tracking is per zip
+            const sep = game.sourceFile.lastIndexOf(":");
+            const zipName =
+              sep === -1 ? game.sourceFile : game.sourceFile.slice(0, sep);
+            if (!sourceFileMap.has(zipName)) {
+              sourceFileMap.set(zipName, {
+                filename: zipName,
+                url: `https://www.pgnmentor.com/players/${zipName}`,
                 gameCount: 0,
                 uploadDate: new Date().toISOString(),
               });
             }
-            sourceFileMap.get(game.sourceFile).gameCount++;
+            sourceFileMap.get(zipName).gameCount++;
           }
         }
       }
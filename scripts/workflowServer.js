@@ -10,6 +10,93 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
 const PORT = 3030;
 
+// Download sources selectable in Step 1 → npm script that runs them
+// (keys are also the sources' source-tracking.json sections)
+const DOWNLOAD_SCRIPTS = {
+  pgnmentor: "download:pgnmentor",
+  lichess: "download:lichess",
+  twic: "download:twic",
+};
+
+// Runs listed in the status bar's quarantine breakdown
+const QUARANTINE_RUN_LIMIT = 5;
+
+/**
+ * Quarantined game counts: total, per stage and per run (latest first)
+ */
+function summarizeQuarantine(quarantinePath) {
+  const summary = { total: 0, byStage: { ingest: 0, enrich: 0 }, runs: [] };
+  if (!fs.existsSync(quarantinePath)) return summary;
+
+  const runs = new Map();
+  for (const line of fs.readFileSync(quarantinePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    const entry = JSON.parse(line);
+    summary.total++;
+    summary.byStage[entry.stage] = (summary.byStage[entry.stage] || 0) + 1;
+    const run = runs.get(entry.runId) || {
+      runId: entry.runId,
+      stage: entry.stage,
+      count: 0,
+      startedAt: entry.runId.split("@")[1] || "",
+    };
+    run.count++;
+    runs.set(entry.runId, run);
+  }
+
+  summary.runs = [...runs.values()]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, QUARANTINE_RUN_LIMIT);
+  return summary;
+}
+
+const SOURCE_TRACKING_PATH = path.join(
+  __dirname,
+  "..",
+  "data",
+  "indexes",
+  "source-tracking.json",
+);
+
+/**
+ * Rejection breakdown of a source's latest run (source-tracking.json
+ * lastRun): run totals by reason, then each file that rejected games
+ */
+function summarizeRejections(trackingKey) {
+  if (!fs.existsSync(SOURCE_TRACKING_PATH)) return null;
+  const site = JSON.parse(fs.readFileSync(SOURCE_TRACKING_PATH, "utf-8"))[
+    trackingKey
+  ];
+  const run = site?.lastRun;
+  if (!run) return null;
+
+  return {
+    source: trackingKey,
+    runId: run.runId,
+    total: run.stats.total,
+    rejected: run.stats.rejected,
+    rejections: run.stats.rejections || {},
+    files: run.files
+      .map((filename) => ({
+        filename,
+        rejections: site.files[filename]?.rejections || {},
+      }))
+      .filter((file) => Object.keys(file.rejections).length > 0),
+  };
+}
+
+// Send the run's rejection breakdown once a download/import finishes
+function sendRejections(res, trackingKey) {
+  try {
+    const summary = summarizeRejections(trackingKey);
+    if (summary) {
+      res.write(`data: ${JSON.stringify({ type: "rejections", summary })}\n\n`);
+    }
+  } catch (error) {
+    // Ignore parse errors
+  }
+}
+
 // Serve static files
 app.use(express.static(path.join(__dirname, "..", "public")));
 app.use(express.json());
@@ -74,10 +161,16 @@ app.get("/api/status", async (req, res) => {
       chunkCount = files.filter(
         (f) => f.startsWith("chunk-") && f.endsWith(".json"),
       ).length;
+      // Search indexes only: not shards, their manifests or bookkeeping
       indexCount = files.filter(
         (f) =>
           !f.startsWith("chunk-") &&
+          !f.startsWith("annotations-") &&
           f.endsWith(".json") &&
+          !f.includes("-shard-") &&
+          f !== "position-index.json" &&
+          f !== "explorer-index.json" &&
+          f !== "index-build-state.json" &&
           !f.includes("deduplication") &&
           !f.includes("source-tracking"),
       ).length;
@@ -94,9 +187,10 @@ app.get("/api/status", async (req, res) => {
           const tracking = JSON.parse(
             fs.readFileSync(sourceTrackingPath, "utf-8"),
           );
-          productionFileCount = Object.keys(
-            tracking.pgnmentor?.files || {},
-          ).length;
+          productionFileCount = Object.values(tracking).reduce(
+            (sum, site) => sum + Object.keys(site?.files || {}).length,
+            0,
+          );
         } catch (error) {
           // Ignore parse errors
         }
@@ -108,12 +202,34 @@ app.get("/api/status", async (req, res) => {
       ? fs.readdirSync(backupsDir).sort().reverse()
       : [];
 
+    let quarantine = null;
+    try {
+      quarantine = summarizeQuarantine(
+        path.join(__dirname, "..", "data", "quarantine", "quarantine.jsonl"),
+      );
+    } catch (error) {
+      // Ignore parse errors
+    }
+
+    // Latest run of each source that has one
+    const rejections = [];
+    for (const trackingKey of [...Object.keys(DOWNLOAD_SCRIPTS), "local"]) {
+      try {
+        const summary = summarizeRejections(trackingKey);
+        if (summary) rejections.push(summary);
+      } catch (error) {
+        // Ignore parse errors
+      }
+    }
+
     res.json({
       local: {
         chunks: chunkCount,
         indexes: indexCount,
         hasDedup,
       },
+      quarantine,
+      rejections,
       production: {
         filesUploaded: productionFileCount,
       },
@@ -127,7 +243,16 @@ app.get("/api/status", async (req, res) => {
 
 // Step 1: Download new games
 app.post("/api/download", async (req, res) => {
-  const { maxFiles } = req.body;
+  const {
+    maxFiles,
+    source = "pgnmentor",
+    offline = false,
+    annotations = false,
+  } = req.body;
+  const script = DOWNLOAD_SCRIPTS[source];
+  if (!script) {
+    return res.status(400).json({ error: `Unknown source: ${source}` });
+  }
 
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
@@ -140,13 +265,60 @@ app.post("/api/download", async (req, res) => {
       maxFiles != null && maxFiles > 0
         ? { MAX_FILES: maxFiles.toString() }
         : {};
+    if (offline) {
+      // Replay files already in data/pgn-downloads - no network access
+      env.OFFLINE = "true";
+    }
+    if (annotations) {
+      env.KEEP_ANNOTATIONS = "true";
+    }
 
-    await runCommand("npm", ["run", "download:pgnmentor"], {
+    await runCommand("npm", ["run", script], {
       env,
       onOutput: (data, type) => {
         res.write(`data: ${JSON.stringify({ type, output: data })}\n\n`);
       },
     });
+    sendRejections(res, source);
+
+    res.write(`data: ${JSON.stringify({ type: "done", success: true })}\n\n`);
+    res.end();
+  } catch (error) {
+    res.write(
+      `data: ${JSON.stringify({ type: "error", error: error.error || error.message })}\n\n`,
+    );
+    res.end();
+  }
+});
+
+// Import local PGN files/directories into chunks (same path as downloads)
+app.post("/api/import-local", async (req, res) => {
+  const { paths, collection, skipElo = false } = req.body;
+  if (!Array.isArray(paths) || paths.length === 0) {
+    return res.status(400).json({ error: "At least one path is required" });
+  }
+  if (!collection || !collection.trim()) {
+    return res.status(400).json({ error: "Collection name is required" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  try {
+    await runCommand("npm", ["run", "import:local"], {
+      env: {
+        LOCAL_IMPORT_PATHS: paths.join(path.delimiter),
+        LOCAL_IMPORT_COLLECTION: collection.trim(),
+        LOCAL_IMPORT_SKIP_ELO: skipElo ? "true" : "false",
+      },
+      onOutput: (data, type) => {
+        res.write(`data: ${JSON.stringify({ type, output: data })}\n\n`);
+      },
+    });
+    sendRejections(res, "local");
 
     res.write(`data: ${JSON.stringify({ type: "done", success: true })}\n\n`);
     res.end();
@@ -160,6 +332,8 @@ app.post("/api/download", async (req, res) => {
 
 // Step 2: Build indexes
 app.post("/api/build-indexes", async (req, res) => {
+  const { fullRebuild = false } = req.body;
+
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache",
@@ -168,6 +342,8 @@ app.post("/api/build-indexes", async (req, res) => {
 
   try {
     await runCommand("npm", ["run", "build-indexes"], {
+      // Default is an incremental merge into the existing indexes
+      env: fullRebuild ? { FULL_REBUILD: "true" } : {},
       onOutput: (data, type) => {
         res.write(`data: ${JSON.stringify({ type, output: data })}\n\n`);
       },
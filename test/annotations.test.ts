@@ -0,0 +1,90 @@
+// Unit tests for clock/eval annotation extraction and the per-chunk side files
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { extractMoveAnnotations } from "../scripts/movetext.js";
+import {
+  emptyDeduplicationIndex,
+  processGames,
+  saveGamesToChunks,
+} from "../scripts/ingest.js";
+import type { MoveAnnotations } from "../scripts/types.js";
+
+const LICHESS_MOVES = `1. e4 { [%eval 0.18] [%clk 0:03:00] } 1... c5 { [%eval 0.25] [%clk 0:02:59] } 2. Nf3 { [%eval #4] [%clk 0:02:58.5] } 2... d6 { [%clk 0:02:55] } 3. d4 (3. Bb5+ { [%clk 0:01:00] }) 3... cxd4 { [%eval -1.5,20] } 1-0`;
+
+describe("extractMoveAnnotations", () => {
+  it("should collect clock and eval values per main-line ply", () => {
+    expect(extractMoveAnnotations(LICHESS_MOVES)).toEqual({
+      clk: [180, 179, 178.5, 175, null, null],
+      eval: [18, 25, "#4", null, null, -150],
+    });
+  });
+
+  it("should omit arrays the movetext has no values for", () => {
+    // TWIC-style: clocks only
+    expect(
+      extractMoveAnnotations(
+        "1. d4 {[%clk 1:59:56]} Nf6 {[%clk 1:59:40]} 2. c4 1/2-1/2",
+      ),
+    ).toEqual({ clk: [7196, 7180, null] });
+    expect(
+      extractMoveAnnotations("1. e4 {best by test} e5 1-0"),
+    ).toBeUndefined();
+  });
+});
+
+describe("annotation side files", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "annotations-test-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should write annotations beside the chunk, keyed by game hash", async () => {
+    const pgn = `[Event "Titled Arena"]
+[White "Alpha, Anna"]
+[Black "Beta, Boris"]
+[Result "1-0"]
+
+${LICHESS_MOVES}
+
+[Event "Titled Arena"]
+[White "Gamma, Gina"]
+[Black "Delta, Dan"]
+[Result "0-1"]
+
+1. d4 d5 2. c4 0-1
+`;
+    const annotations = new Map<string, MoveAnnotations>();
+    const { games } = await processGames(
+      pgn,
+      "lichess.pgn",
+      emptyDeduplicationIndex(),
+      0,
+      { source: "fixture", filterOptions: { requireElo: false }, annotations },
+    );
+    expect(games).toHaveLength(2);
+    expect(annotations.size).toBe(1);
+
+    saveGamesToChunks(games, tmpDir, null, annotations);
+
+    const file = JSON.parse(
+      fs.readFileSync(path.join(tmpDir, "annotations-0.json"), "utf-8"),
+    );
+    expect(Object.keys(file)).toEqual([games[0].hash]);
+    expect(file[games[0].hash].clk).toHaveLength(6);
+    expect(annotations.size).toBe(0);
+
+    // Chunks themselves carry no annotation fields
+    const chunk = JSON.parse(
+      fs.readFileSync(path.join(tmpDir, "chunk-0.json"), "utf-8"),
+    );
+    expect(Object.keys(chunk.games[0])).not.toContain("clk");
+  });
+});
@@ -0,0 +1,83 @@
+// Unit tests for result verification and the data-quality report
+
+import { describe, it, expect } from "vitest";
+import { ChessPGN } from "@chess-pgn/chess-pgn";
+import { replayMoves } from "../scripts/buildIndexes.js";
+import {
+  buildDataQualityReport,
+  verifyResult,
+} from "../scripts/dataQuality.js";
+import { parseSanMoves } from "../scripts/movetext.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+function verify(movetext: string, result: string, annotated?: "timeout") {
+  const chess = new ChessPGN();
+  replayMoves(chess, parseSanMoves(movetext));
+  return verifyResult(chess, result, movetext, annotated);
+}
+
+describe("verifyResult", () => {
+  it("should flag a mate whose Result names the wrong winner", () => {
+    expect(verify("1. f3 e5 2. g4 Qh4# 0-1", "0-1")).toEqual({
+      termination: "mate",
+      issue: undefined,
+    });
+    expect(verify("1. f3 e5 2. g4 Qh4# 1-0", "1-0")).toEqual({
+      termination: "mate",
+      issue: "Checkmate by Black but Result is 1-0",
+    });
+  });
+
+  it("should read the termination from comments after the last move", () => {
+    expect(verify("1. e4 e5 2. Qh5 {White resigns} 0-1", "0-1")).toEqual({
+      termination: "resignation",
+    });
+    expect(
+      verify("1. d4 d5 2. c4 {Black lost on time} 1-0", "1-0").termination,
+    ).toBe("timeout");
+    // Only trailing comments count
+    expect(
+      verify("1. e4 {resigned too early?} e5 2. Nf3 1/2-1/2", "1/2-1/2")
+        .termination,
+    ).toBe("draw-agreement");
+  });
+
+  it("should prefer an annotated termination and skip unfinished games", () => {
+    expect(verify("1. e4 e5 1-0", "1-0", "timeout").termination).toBe(
+      "timeout",
+    );
+    expect(verify("1. e4 e5 *", "*")).toEqual({});
+  });
+});
+
+describe("buildDataQualityReport", () => {
+  it("should count terminations and list mismatches", () => {
+    const base = {
+      white: "Alpha, Anna",
+      black: "Beta, Boris",
+      event: "Quality Open",
+      date: "2024.05.01",
+      sourceFile: "quality.pgn",
+    };
+    const games = [
+      { ...base, idx: 0, hash: "a", result: "0-1", termination: "mate" },
+      {
+        ...base,
+        idx: 1,
+        hash: "b",
+        result: "1-0",
+        termination: "mate",
+        resultIssue: "Checkmate by Black but Result is 1-0",
+      },
+      { ...base, idx: 2, hash: "c", result: "1-0", termination: "resignation" },
+      { ...base, idx: 3, hash: "d", result: "*" },
+    ] as GameMetadata[];
+
+    const report = buildDataQualityReport(games);
+    expect(report.games).toBe(4);
+    expect(report.unverified).toBe(1);
+    expect(report.terminations).toEqual({ mate: 2, resignation: 1 });
+    expect(report.mismatches).toHaveLength(1);
+    expect(report.mismatches[0]).toMatchObject({ idx: 1, hash: "b" });
+  });
+});
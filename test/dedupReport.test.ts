@@ -0,0 +1,184 @@
+// Unit tests for the per-run dedup audit report
+// Runs in a temp working directory so ./data is isolated
+
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import { runIngest } from "../scripts/ingest.js";
+import {
+  createDedupRecorder,
+  DEDUP_REPORTS_DIR,
+} from "../scripts/dedupReport.js";
+import type { DedupReport, DuplicateRecord } from "../scripts/types.js";
+import { fixtureAdapter, pgn, useTempCwd } from "./fixtures.js";
+
+function readRecords(file: string): DuplicateRecord[] {
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+const ORIGINAL = {
+  Event: "Audit Open",
+  Site: "Testville",
+  Date: "2024.03.02",
+  Round: "4",
+  White: "Alpha, Anna",
+  Black: "Beta, Boris",
+  Result: "1-0",
+};
+
+const adapter = fixtureAdapter(
+  {
+    "first.pgn": pgn(ORIGINAL, "1. e4 e5 2. Nf3 Nc6 3. Bb5 1-0"),
+    "second.pgn":
+      // Exact duplicate, re-annotated
+      pgn(ORIGINAL, "1. e4 e5 2. Nf3 {main line} Nc6 3. Bb5 1-0") +
+      // Same game, different event spelling and round
+      pgn(
+        { ...ORIGINAL, Event: "Audit Open 2024", Round: "4.1" },
+        "1. e4 e5 2. Nf3 Nc6 3. Bb5 1-0",
+      ) +
+      // Same headers, different game
+      pgn(ORIGINAL, "1. d4 d5 2. c4 1-0"),
+  },
+  { filterOptions: { requireElo: false } },
+);
+
+const tmp = useTempCwd("dedup-report-test-");
+
+describe("dedup report", () => {
+  it("should record every rejected duplicate with what differs", async () => {
+    await runIngest(adapter);
+
+    const files = fs.readdirSync(DEDUP_REPORTS_DIR).sort();
+    expect(files).toHaveLength(3);
+    expect(files[0]).toMatch(/^fixture-.*\.json$/);
+    expect(files[1]).toMatch(/^fixture-.*\.jsonl$/);
+    expect(files[2]).toMatch(/^fixture-.*\.md$/);
+
+    const report: DedupReport = JSON.parse(
+      fs.readFileSync(path.join(DEDUP_REPORTS_DIR, files[0]), "utf-8"),
+    );
+    expect(report.totals).toEqual({
+      exact: 1,
+      nearDuplicate: 1,
+      headerCollision: 1,
+    });
+    expect(report.byFile["second.pgn"].headerCollision).toBe(1);
+
+    expect(report.recordsFile).toBe(files[1]);
+
+    const [exact, near, collision] = readRecords(
+      path.join(DEDUP_REPORTS_DIR, files[1]),
+    );
+    expect(exact.differences).toEqual([]);
+    expect(near.differences).toEqual(["event", "round"]);
+    expect(near.existing!.sourceFile).toBe("first.pgn");
+    expect(collision.kind).toBe("header-collision");
+    expect(collision.differences).toEqual(["moves"]);
+
+    const markdown = fs.readFileSync(
+      path.join(DEDUP_REPORTS_DIR, files[2]),
+      "utf-8",
+    );
+    expect(markdown).toContain("## ⚠️ Header collisions");
+    expect(markdown).toContain("differs in: event, round");
+  });
+
+  it("should hold at most one batch of records in memory", async () => {
+    const reportsDir = path.join(tmp.dir, "batched");
+    const run = {
+      adapterId: "batched",
+      trackingKey: "batched",
+      startedAt: "2024-03-02T10:00:00.000Z",
+      policy: "either" as const,
+    };
+    const recorder = createDedupRecorder(run, "./data/indexes", {
+      reportsDir,
+      batchSize: 2,
+    });
+    for (let i = 0; i < 5; i++) {
+      recorder.push({
+        kind: "near-duplicate",
+        sourceFile: "big.pgn",
+        existingIdx: 1_000_000 + i,
+        movesHash: `moves-${i}`,
+        incoming: {
+          white: `White ${i}`,
+          black: "Black",
+          event: "Batched",
+          site: "?",
+          date: "2024.03.02",
+          result: "1-0",
+        },
+      });
+    }
+    // Full batches wait in the spool until the file's games are saved
+    expect(fs.readdirSync(reportsDir)).toEqual([
+      "batched-2024-03-02T10-00-00-000Z.spool.jsonl",
+    ]);
+
+    await recorder.flush();
+    const report = await recorder.finish();
+    const records = readRecords(path.join(reportsDir, report.recordsFile));
+
+    expect(records.map((r) => r.incoming.white)).toEqual([
+      "White 0",
+      "White 1",
+      "White 2",
+      "White 3",
+      "White 4",
+    ]);
+    expect(report.totals.nearDuplicate).toBe(5);
+    expect(report.byDifference["(existing game not found)"]).toBe(5);
+    expect(fs.readdirSync(reportsDir)).toEqual([report.recordsFile]);
+  });
+
+  it("should keep and tally the records of an interrupted run on resume", async () => {
+    const reportsDir = path.join(tmp.dir, "resumed");
+    const run = {
+      adapterId: "resumed",
+      trackingKey: "resumed",
+      startedAt: "2024-03-02T11:00:00.000Z",
+      policy: "either" as const,
+    };
+    const record = (sourceFile: string): DuplicateRecord => ({
+      kind: "exact",
+      sourceFile,
+      existingIdx: 0,
+      existingHash: "missing",
+      incoming: {
+        white: "White",
+        black: "Black",
+        event: "Resumed",
+        site: "?",
+        date: "2024.03.02",
+        result: "1-0",
+      },
+    });
+
+    // First run: done.pgn is saved, then the run dies during cut.pgn
+    const interrupted = createDedupRecorder(run, "./data/indexes", {
+      reportsDir,
+      batchSize: 1,
+    });
+    interrupted.push(record("done.pgn"));
+    await interrupted.flush();
+    interrupted.push(record("cut.pgn"));
+
+    // The resumed run reprocesses cut.pgn
+    const resumed = createDedupRecorder(run, "./data/indexes", {
+      reportsDir,
+    });
+    resumed.push(record("cut.pgn"));
+    await resumed.flush();
+    const report = await resumed.finish();
+
+    expect(report.totals.exact).toBe(2);
+    expect(Object.keys(report.byFile).sort()).toEqual(["cut.pgn", "done.pgn"]);
+    expect(fs.readdirSync(reportsDir)).toEqual([report.recordsFile]);
+  });
+});
@@ -0,0 +1,143 @@
+// Unit tests for TWIC issue discovery and import
+// Runs against a local fixture server instead of theweekinchess.com
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "http";
+import path from "path";
+import AdmZip from "adm-zip";
+import {
+  discoverLatestIssue,
+  twicAdapter,
+  twicFilename,
+} from "../scripts/downloadTWIC.js";
+import {
+  downloadFile,
+  emptyDeduplicationIndex,
+  extractZip,
+  processGames,
+} from "../scripts/ingest.js";
+import { pgn, useTempCwd } from "./fixtures.js";
+
+const ROUND = {
+  Event: "Fixture Open",
+  Site: "Testville",
+  Date: "2024.06.01",
+  Round: "1",
+};
+
+const FIXTURE_PGN =
+  pgn(
+    {
+      ...ROUND,
+      White: "Alpha, A",
+      Black: "Beta, B",
+      Result: "1-0",
+      WhiteElo: "2650",
+      BlackElo: "2610",
+    },
+    "1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 1-0",
+  ) +
+  pgn(
+    {
+      ...ROUND,
+      White: "Gamma, C",
+      Black: "Delta, D",
+      Result: "0-1",
+      WhiteElo: "2100",
+      BlackElo: "2150",
+    },
+    "1. d4 d5 0-1",
+  );
+
+let server: http.Server;
+let baseUrl: string;
+
+// downloadFile keeps its HTTP cache under ./data - isolate it
+const tmp = useTempCwd("twic-test-");
+
+beforeAll(async () => {
+  const zip = new AdmZip();
+  zip.addFile("twic1002.pgn", Buffer.from(FIXTURE_PGN, "utf-8"));
+  const zipBuffer = zip.toBuffer();
+
+  server = http.createServer((req, res) => {
+    if (req.url === "/twic") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        `<a href="zips/twic1001g.zip">1001</a><a href="zips/twic1002g.zip">1002</a>`,
+      );
+    } else if (req.url === "/zips/twic1002g.zip") {
+      res.writeHead(200, { "Content-Type": "application/zip" });
+      res.end(zipBuffer);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as { port: number };
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("TWIC importer", () => {
+  it("should find the latest issue linked on the index page", async () => {
+    expect(await discoverLatestIssue(baseUrl)).toBe(1002);
+  });
+
+  it("should list only untracked issues as changed", async () => {
+    const files = [999, 1000, 1001, 1002].map((issue) => ({
+      filename: twicFilename(issue),
+      url: `${baseUrl}/zips/${twicFilename(issue)}`,
+      issue,
+    }));
+    const tracking = {
+      files: {
+        [twicFilename(1000)]: {
+          filename: twicFilename(1000),
+          url: "x",
+          issue: 1000,
+        },
+      },
+    };
+
+    const changed = await twicAdapter.checkForChanges(files, tracking);
+    expect(changed.map((f) => f.issue)).toEqual([999, 1001, 1002]);
+  });
+
+  it("should download, extract and filter a fixture issue", async () => {
+    const zipPath = path.join(tmp.dir, twicFilename(1002));
+    expect(
+      await downloadFile(`${baseUrl}/zips/${twicFilename(1002)}`, zipPath),
+    ).toBe(true);
+
+    const entries = extractZip(zipPath);
+    expect(entries).toHaveLength(1);
+
+    const dedup = emptyDeduplicationIndex();
+    const { games, stats } = await processGames(
+      entries![0].pgn,
+      twicFilename(1002),
+      dedup,
+      0,
+      { source: "twic", filterOptions: { requireTitles: false } },
+    );
+
+    expect(stats.total).toBe(2);
+    expect(stats.rejected).toBe(1); // sub-2400 game
+    expect(games).toHaveLength(1);
+    expect(games[0].source).toBe("twic");
+    expect(games[0].sourceFile).toBe("twic1002g.zip");
+  });
+
+  it("should report a missing issue as a failed download", async () => {
+    const zipPath = path.join(tmp.dir, twicFilename(1001));
+    expect(
+      await downloadFile(`${baseUrl}/zips/${twicFilename(1001)}`, zipPath),
+    ).toBe(false);
+  });
+});
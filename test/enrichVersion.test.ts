@@ -0,0 +1,65 @@
+// Unit tests for skipping games enrichment was already attempted for
+
+import { describe, it, expect } from "vitest";
+import {
+  enrichGamesWithEcoJson,
+  ENRICH_VERSION,
+} from "../scripts/buildIndexes.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+const ODDS_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKB1R w KQkq - 0 1";
+
+function game(idx: number, fields: Partial<GameMetadata>): GameMetadata {
+  return {
+    idx,
+    hash: `hash-${idx}`,
+    white: "Alpha, Anna",
+    black: "Beta, Boris",
+    whiteElo: 2600,
+    blackElo: 2600,
+    result: "1-0",
+    date: "2024.05.01",
+    event: "Enrich Open",
+    site: "Testville",
+    moves: "1. e4 e5 2. Nf3 1-0",
+    ply: 0,
+    source: "fixture",
+    sourceFile: "enrich.pgn",
+    ...fields,
+  };
+}
+
+describe("enrichment version", () => {
+  it("should stamp attempted games and skip them on the next build", async () => {
+    const games = [
+      game(0, {}), // No opening in the (empty) book: unmatched
+      // Set-up position: never classified
+      game(1, { startFen: ODDS_FEN, moves: "1. e4 e5 2. Bc4 1-0" }),
+      game(2, { moves: "1. e4 e5 2. Ke3 1-0" }), // Fails to replay
+    ];
+
+    const first = await enrichGamesWithEcoJson(games, {}, {});
+    expect([...first.updated].sort()).toEqual(["hash-0", "hash-1"]);
+    expect(games.map((g) => g.enrichVersion)).toEqual([
+      ENRICH_VERSION,
+      ENRICH_VERSION,
+      undefined,
+    ]);
+    expect(first.failed.map((e) => e.hash)).toEqual(["hash-2"]);
+
+    // Only the game that failed to replay is attempted again
+    const second = await enrichGamesWithEcoJson(games, {}, {});
+    expect(second.updated.size).toBe(0);
+    expect(second.failed.map((e) => e.hash)).toEqual(["hash-2"]);
+  });
+
+  it("should treat games enriched before the stamp as current", async () => {
+    const legacy = game(0, {
+      ecoJsonFen: "some-fen",
+      termination: "resignation",
+    });
+    const { updated } = await enrichGamesWithEcoJson([legacy], {}, {});
+    expect(updated.size).toBe(0);
+    expect(legacy.enrichVersion).toBeUndefined();
+  });
+});
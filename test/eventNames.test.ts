@@ -0,0 +1,139 @@
+// Unit tests for event canonicalization and the event metadata index
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeEventName,
+  createEventNameResolver,
+  canonicalizeEvents,
+} from "../scripts/eventNames.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+let nextIdx = 0;
+
+function game(
+  event: string,
+  site: string,
+  date: string,
+  round: string,
+  white: string,
+  black: string,
+): GameMetadata {
+  const idx = nextIdx++;
+  return {
+    idx,
+    white,
+    black,
+    whiteElo: 0,
+    blackElo: 0,
+    result: "1/2-1/2",
+    date,
+    event,
+    site,
+    round,
+    moves: "1. d4 d5 1/2-1/2",
+    ply: 0,
+    source: "fixture",
+    sourceFile: "fixture.pgn",
+    hash: `h${idx}`,
+  };
+}
+
+describe("normalizeEventName", () => {
+  it("should drop years, editions, punctuation and filler words", () => {
+    expect(normalizeEventName("Tata Steel Chess Masters 2024")).toBe(
+      "tata steel masters",
+    );
+    expect(normalizeEventName("86th Tata Steel Masters")).toBe(
+      "tata steel masters",
+    );
+    expect(normalizeEventName("Wch U20 (Men)")).toBe("wch u20 men");
+  });
+});
+
+describe("canonicalizeEvents", () => {
+  it("should fold spellings of one tournament into a single entry", () => {
+    const resolver = createEventNameResolver({
+      "Tata Steel Masters": ["Tata Steel-A"],
+    });
+    const index = canonicalizeEvents(
+      [
+        game(
+          "Tata Steel Masters 2024",
+          "Wijk aan Zee NED",
+          "2024.01.13",
+          "1",
+          "Gukesh D",
+          "Giri, Anish",
+        ),
+        game(
+          "Tata Steel-A",
+          "Wijk aan Zee",
+          "2024.01.20",
+          "7",
+          "Giri, Anish",
+          "Wei, Yi",
+        ),
+        game(
+          "Tata Steel Masters",
+          "Wijk aan Zee NED",
+          "2023.01.14",
+          "1",
+          "Giri, Anish",
+          "So, Wesley",
+        ),
+      ],
+      resolver,
+      new Map([["Gukesh D", "Gukesh, D"]]),
+    );
+
+    expect(Object.keys(index).sort()).toEqual([
+      "tata-steel-masters-2023",
+      "tata-steel-masters-2024",
+    ]);
+    expect(index["tata-steel-masters-2024"]).toMatchObject({
+      name: "Tata Steel Masters",
+      year: "2024",
+      rounds: { first: 1, last: 7 },
+      variants: ["Tata Steel Masters 2024", "Tata Steel-A"],
+      players: ["Giri, Anish", "Gukesh, D", "Wei, Yi"],
+    });
+  });
+
+  it("should merge same-site subset names only when players overlap", () => {
+    const index = canonicalizeEvents(
+      [
+        game(
+          "Olympiad Open",
+          "Budapest HUN",
+          "2024.09.11",
+          "1",
+          "Gukesh D",
+          "Caruana, Fabiano",
+        ),
+        game(
+          "Olympiad",
+          "Budapest HUN",
+          "2024.09.12",
+          "2",
+          "Caruana, Fabiano",
+          "Giri, Anish",
+        ),
+        game(
+          "Olympiad Women",
+          "Budapest HUN",
+          "2024.09.12",
+          "2",
+          "Ju, Wenjun",
+          "Muzychuk, Anna",
+        ),
+      ],
+      createEventNameResolver(),
+    );
+
+    expect(Object.keys(index).sort()).toEqual([
+      "olympiad-open-2024",
+      "olympiad-women-2024",
+    ]);
+    expect(index["olympiad-open-2024"].games).toHaveLength(2);
+  });
+});
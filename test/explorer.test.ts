@@ -0,0 +1,219 @@
+// Unit tests for the opening explorer move statistics
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ChessPGN } from "@chess-pgn/chess-pgn";
+import {
+  buildExplorerMoves,
+  buildExplorerTree,
+  loadExplorerCache,
+  mergeExplorerMoves,
+  saveExplorerCache,
+  saveExplorerTree,
+} from "../scripts/explorer.js";
+import { replayGames } from "../scripts/positionIndex.js";
+import { diffGames, indexBuildState } from "../scripts/indexMerge.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+function game(
+  idx: number,
+  moves: string,
+  result: string,
+  whiteElo = 0,
+  blackElo = 0,
+): GameMetadata {
+  return {
+    idx,
+    hash: `hash-${idx}`,
+    white: `White ${idx}`,
+    black: `Black ${idx}`,
+    whiteElo,
+    blackElo,
+    result,
+    date: "2024.05.01",
+    moves,
+  } as GameMetadata;
+}
+
+function hashAfter(moves: string[]): string {
+  const chess = new ChessPGN();
+  for (const move of moves) chess.move(move);
+  return chess.hash();
+}
+
+const GAMES = [
+  game(0, "e4 e5 Nf3 Nc6 Bb5", "1-0", 2700, 2650),
+  game(1, "e4 c5 Nf3 d6", "0-1", 2500, 2600),
+  game(2, "Nf3 Nc6 e4 e5 Bc4", "1/2-1/2", 2800, 2750), // Transposes into game 0
+  game(3, "e4 e5 Nf3 Nf6", "*"), // Unfinished: not counted
+];
+
+function explorer(games: GameMetadata[], options = {}) {
+  const moves = buildExplorerMoves(games, replayGames(games, 6));
+  return buildExplorerTree(moves, games, options);
+}
+
+describe("buildExplorerTree", () => {
+  it("should count next moves, results and average ratings", () => {
+    const start = explorer(GAMES)[hashAfter([])];
+
+    expect(start).toMatchObject({ games: 3, white: 1, draws: 1, black: 1 });
+    expect(start.moves).toEqual([
+      {
+        san: "e4",
+        games: 2,
+        white: 1,
+        draws: 0,
+        black: 1,
+        averageElo: 2613,
+      },
+      { san: "Nf3", games: 1, white: 0, draws: 1, black: 0, averageElo: 2775 },
+    ]);
+    expect(start.topGames.map((g) => [g.idx, g.move])).toEqual([
+      [2, "Nf3"],
+      [0, "e4"],
+      [1, "e4"],
+    ]);
+    expect(start.topGames[0]).toMatchObject({ whiteElo: 2800, year: "2024" });
+  });
+
+  it("should merge transpositions and leave out rarely reached positions", () => {
+    const tree = explorer(GAMES, { topGames: 1 });
+
+    // 1.e4 e5 2.Nf3 Nc6 and 1.Nf3 Nc6 2.e4 e5 reach the same position
+    const transposed = tree[hashAfter(["e4", "e5", "Nf3", "Nc6"])];
+    expect(transposed.games).toBe(2);
+    expect(transposed.moves.map((m) => m.san)).toEqual(["Bb5", "Bc4"]);
+    // Reached by game 0 only (game 3 is unfinished)
+    expect(tree[hashAfter(["e4", "e5", "Nf3"])]).toBeUndefined();
+
+    const sicilianOrOpen = tree[hashAfter(["e4"])];
+    expect(sicilianOrOpen.moves.map((m) => m.san)).toEqual(["c5", "e5"]);
+    expect(sicilianOrOpen.topGames).toHaveLength(1);
+    expect(tree[hashAfter(["e4", "c5"])]).toBeUndefined();
+  });
+
+  it("should merge to the same explorer as a full build", () => {
+    const before = buildExplorerMoves(GAMES, replayGames(GAMES, 6));
+    const after = [
+      GAMES[0],
+      game(1, "d4 d5", "1-0"),
+      GAMES[2],
+      game(4, "e4 e5 Bc4", "0-1", 2400, 2450),
+    ];
+    const diff = diffGames(after, indexBuildState(GAMES));
+    const merged = mergeExplorerMoves(
+      structuredClone(before),
+      diff,
+      replayGames(diff.added, 6),
+    );
+
+    expect(merged).toEqual(buildExplorerMoves(after, replayGames(after, 6)));
+    expect(buildExplorerTree(merged, after)).toEqual(explorer(after));
+  });
+});
+
+describe("games sharing an idx", () => {
+  // idx is per source file, so two games can have the same one
+  const ruyLopez = {
+    ...game(7, "e4 e5 Nf3 Nc6 Bb5", "1-0", 2700, 2700),
+    hash: "hash-7-ruy",
+  };
+  const italian = {
+    ...game(7, "e4 e5 Nf3 Nc6 Bc4", "0-1", 2500, 2500),
+    hash: "hash-7-italian",
+  };
+
+  it("should count each game on its own", () => {
+    const tree = explorer([ruyLopez, italian]);
+    const position = tree[hashAfter(["e4", "e5", "Nf3", "Nc6"])];
+
+    expect(position).toMatchObject({ games: 2, white: 1, black: 1 });
+    expect(position.moves.map((m) => [m.san, m.averageElo])).toEqual([
+      ["Bb5", 2700],
+      ["Bc4", 2500],
+    ]);
+    expect(position.topGames.map((g) => [g.idx, g.move])).toEqual([
+      [7, "Bb5"],
+      [7, "Bc4"],
+    ]);
+  });
+
+  it("should merge a change to one of them like a full build", () => {
+    const before = [ruyLopez, italian];
+    const after = [ruyLopez, { ...italian, moves: "e4 e5 Nf3 Nc6 d4" }];
+    const diff = diffGames(after, indexBuildState(before));
+    const merged = mergeExplorerMoves(
+      buildExplorerMoves(before, replayGames(before, 6)),
+      diff,
+      replayGames(diff.added, 6),
+    );
+
+    expect(merged).toEqual(buildExplorerMoves(after, replayGames(after, 6)));
+    expect(buildExplorerTree(merged, after)).toEqual(explorer(after));
+  });
+});
+
+describe("set-up position games", () => {
+  it("should leave startFen games out of the explorer", () => {
+    // Standard start position, but flagged as a set-up game
+    const setup = {
+      ...game(5, "e4 e5 Nf3 Nc6 Bb5", "1-0", 2900, 2900),
+      startFen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+    };
+    const games = [...GAMES, setup];
+    const tree = explorer(games);
+
+    expect(tree[hashAfter([])].games).toBe(3);
+    expect(
+      tree[hashAfter(["e4", "e5", "Nf3", "Nc6"])].topGames.map((g) => g.idx),
+    ).not.toContain(5);
+
+    const before = buildExplorerMoves(GAMES, replayGames(GAMES, 6));
+    const diff = diffGames(games, indexBuildState(GAMES));
+    expect(
+      mergeExplorerMoves(before, diff, replayGames(diff.added, 6)),
+    ).toEqual(buildExplorerMoves(GAMES, replayGames(GAMES, 6)));
+  });
+});
+
+describe("explorer files", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "explorer-test-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should shard the tree and keep the move cache per depth", () => {
+    const moves = buildExplorerMoves(GAMES, replayGames(GAMES, 6));
+    const manifest = saveExplorerTree(
+      buildExplorerTree(moves, GAMES),
+      tmpDir,
+      { plies: 6, minGames: 2, topGames: 5 },
+      { maxShardBytes: 600 },
+    );
+    const start = hashAfter([]);
+    const shard = JSON.parse(
+      fs.readFileSync(
+        path.join(
+          tmpDir,
+          `explorer-shard-${start.slice(0, manifest.prefixLength)}.json`,
+        ),
+        "utf-8",
+      ),
+    );
+    expect(shard[start].games).toBe(3);
+    expect(manifest.totalPositions).toBeGreaterThan(1);
+
+    const cachePath = path.join(tmpDir, "cache", "explorer-moves.json");
+    saveExplorerCache(moves, 6, cachePath);
+    expect(loadExplorerCache(6, cachePath)).toEqual(moves);
+    expect(loadExplorerCache(8, cachePath)).toBeNull();
+  });
+});
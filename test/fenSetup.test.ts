@@ -0,0 +1,85 @@
+// Unit tests for opt-in import of games from a set-up position
+
+import { describe, it, expect } from "vitest";
+import { shouldImportGame } from "../scripts/filterGame.js";
+import { emptyDeduplicationIndex, processGames } from "../scripts/ingest.js";
+
+// Rook odds: White starts without the a1 rook
+const ODDS_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/1NBQKBNR w Kkq - 0 1";
+
+function game(headers: Record<string, string>) {
+  return {
+    headers: {
+      White: "Morphy, Paul",
+      Black: "Amateur",
+      Result: "1-0",
+      ...headers,
+    },
+  };
+}
+
+function pgn(headers: Record<string, string>, moves: string): string {
+  const tags = Object.entries({
+    Event: "Odds Match",
+    Date: "1858.??.??",
+    White: "Morphy, Paul",
+    Black: "Amateur",
+    Result: "1-0",
+    ...headers,
+  })
+    .map(([name, value]) => `[${name} "${value}"]`)
+    .join("\n");
+  return `${tags}\n\n${moves}\n\n`;
+}
+
+describe("shouldImportGame with FEN setups", () => {
+  const options = { requireElo: false };
+
+  it("should reject set-up positions unless allowed", () => {
+    const setup = game({ SetUp: "1", FEN: ODDS_FEN });
+    expect(shouldImportGame(setup, options)).toMatchObject({
+      accepted: false,
+      rule: "fenSetup",
+    });
+    expect(
+      shouldImportGame(setup, { ...options, allowFenSetups: true }).accepted,
+    ).toBe(true);
+  });
+
+  it("should accept Lichess From Position but not other variants", () => {
+    const allow = { ...options, allowFenSetups: true };
+    expect(
+      shouldImportGame(game({ Variant: "From Position", FEN: ODDS_FEN }), allow)
+        .accepted,
+    ).toBe(true);
+    expect(
+      shouldImportGame(game({ Variant: "Chess960", FEN: ODDS_FEN }), allow),
+    ).toMatchObject({ accepted: false, rule: "variant" });
+    expect(
+      shouldImportGame(game({ Variant: "From Position" }), allow),
+    ).toMatchObject({ accepted: false, rule: "variant" });
+  });
+});
+
+describe("processGames with FEN setups", () => {
+  it("should record startFen and keep set-up games apart in the move hash", async () => {
+    const moves = "1. e4 e5 2. Nf3 Nc6 1-0";
+    const { games } = await processGames(
+      pgn({ Round: "1" }, moves) +
+        pgn({ Round: "2", SetUp: "1", FEN: ODDS_FEN }, moves),
+      "odds.pgn",
+      emptyDeduplicationIndex(),
+      0,
+      {
+        source: "fixture",
+        filterOptions: { requireElo: false, allowFenSetups: true },
+      },
+    );
+
+    expect(games).toHaveLength(2);
+    expect(games[0].startFen).toBeUndefined();
+    expect(games[1].startFen).toBe(ODDS_FEN);
+    // Same moves from a different start are a different game
+    expect(games[1].movesHash).not.toBe(games[0].movesHash);
+  });
+});
@@ -0,0 +1,179 @@
+// Unit tests for declarative filter profiles and per-rule rejection counts
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  classifyTimeControl,
+  shouldImportGame,
+  sourceFilterOptions,
+} from "../scripts/filterGame.js";
+import { emptyDeduplicationIndex, processGames } from "../scripts/ingest.js";
+import type { FilterProfile } from "../scripts/types.js";
+
+function game(headers: Record<string, string>) {
+  return {
+    headers: {
+      Event: "Profile Open",
+      Date: "2024.05.01",
+      White: "Alpha, Anna",
+      Black: "Beta, Boris",
+      WhiteElo: "2500",
+      BlackElo: "2300",
+      Result: "1-0",
+      ...headers,
+    },
+  };
+}
+
+function passes(
+  profile: FilterProfile,
+  headers: Record<string, string> = {},
+  movetext?: string,
+): boolean {
+  return shouldImportGame(game(headers), { profile }, movetext).accepted;
+}
+
+describe("classifyTimeControl", () => {
+  it("should bucket by base time plus 40 increments", () => {
+    expect(classifyTimeControl("60+0")).toBe("bullet");
+    expect(classifyTimeControl("180+2")).toBe("blitz");
+    expect(classifyTimeControl("600+5")).toBe("rapid");
+    expect(classifyTimeControl("40/7200")).toBe("classical");
+    expect(classifyTimeControl("1/259200")).toBe("correspondence");
+    expect(classifyTimeControl("?")).toBe("unknown");
+  });
+});
+
+describe("filter profile rules", () => {
+  it("should apply Elo to one side or both", () => {
+    expect(passes({ elo: { min: 2400 } })).toBe(false);
+    expect(passes({ elo: { min: 2400, sides: "either" } })).toBe(true);
+  });
+
+  it("should check titles, time classes, dates and event patterns", () => {
+    expect(passes({ titles: { sides: "either" } }, { WhiteTitle: "GM" })).toBe(
+      true,
+    );
+    expect(
+      passes({ titles: {} }, { WhiteTitle: "GM", BlackTitle: "BOT" }),
+    ).toBe(false);
+    const classical = { timeControl: { classes: ["classical" as const] } };
+    expect(passes(classical, { TimeControl: "180+2" })).toBe(false);
+    expect(passes(classical, { TimeControl: "-" })).toBe(true);
+    expect(
+      passes({ dates: { from: "2000.01.01" } }, { Date: "1999.??.??" }),
+    ).toBe(false);
+    expect(
+      passes({ dates: { to: "2024.03.01" } }, { Date: "2024.??.??" }),
+    ).toBe(true);
+    const events = { events: { include: ["open"], exclude: ["blitz"] } };
+    expect(passes(events)).toBe(true);
+    expect(passes(events, { Event: "Profile Open Blitz" })).toBe(false);
+  });
+
+  it("should use movetext for ply, forfeit and short-draw rules", () => {
+    const draw = { Result: "1/2-1/2" };
+    const moves = "1. e4 e5 2. Nf3 Nc6 1/2-1/2";
+    expect(passes({ shortDrawMoves: 20 }, draw, moves)).toBe(false);
+    expect(passes({ minPly: 4 }, draw, moves)).toBe(true);
+    expect(passes({ minPly: 5 }, draw, moves)).toBe(false);
+    expect(passes({ excludeForfeits: true }, {}, "1-0")).toBe(false);
+    expect(
+      passes({ excludeForfeits: true }, { Termination: "Time forfeit" }, moves),
+    ).toBe(true);
+  });
+});
+
+describe("sourceFilterOptions", () => {
+  let tmpDir: string;
+  let profilesPath: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "filter-profiles-test-"));
+    profilesPath = path.join(tmpDir, "filter-profiles.json");
+    fs.writeFileSync(
+      profilesPath,
+      JSON.stringify({
+        profiles: { strict: { elo: { min: 2600 } } },
+        sources: { twic: "strict", broken: "missing" },
+      }),
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should select the profile configured for a source", () => {
+    expect(
+      sourceFilterOptions("twic", { requireTitles: false }, profilesPath),
+    ).toEqual({
+      requireTitles: false,
+      profile: { name: "strict", elo: { min: 2600 } },
+    });
+    expect(
+      sourceFilterOptions("local", { requireElo: false }, profilesPath),
+    ).toEqual({ requireElo: false });
+    expect(() => sourceFilterOptions("broken", {}, profilesPath)).toThrow(
+      /not defined/,
+    );
+  });
+
+  it("should reject bad event patterns and unknown rules up front", () => {
+    const write = (profile: object) => {
+      fs.writeFileSync(
+        profilesPath,
+        JSON.stringify({
+          profiles: { bad: profile },
+          sources: { twic: "bad" },
+        }),
+      );
+    };
+
+    write({ events: { exclude: ["Blitz("] } });
+    expect(() => sourceFilterOptions("twic", {}, profilesPath)).toThrow(
+      /invalid event pattern \/Blitz\(\//,
+    );
+    write({ elo: { min: 2500 }, minPlies: 20 });
+    expect(() => sourceFilterOptions("twic", {}, profilesPath)).toThrow(
+      /unknown rules: minPlies/,
+    );
+  });
+});
+
+describe("processGames rule counts", () => {
+  it("should count rejections by the rule that failed", async () => {
+    const pgn = [
+      game({ Round: "1" }),
+      game({ Round: "2", BlackElo: "2450" }),
+      game({ Round: "3", BlackElo: "2450", TimeControl: "60+0" }),
+    ]
+      .map(
+        ({ headers }) =>
+          Object.entries(headers)
+            .map(([name, value]) => `[${name} "${value}"]`)
+            .join("\n") + "\n\n1. d4 d5 2. c4 1-0\n",
+      )
+      .join("\n");
+    const { games, stats } = await processGames(
+      pgn,
+      "profile.pgn",
+      emptyDeduplicationIndex(),
+      0,
+      {
+        source: "fixture",
+        filterOptions: {
+          profile: {
+            elo: { min: 2400 },
+            timeControl: { classes: ["rapid", "classical"] },
+          },
+        },
+      },
+    );
+    expect(games).toHaveLength(1);
+    expect(stats.rejected).toBe(2);
+    expect(stats.rejections).toEqual({ elo: 1, timeControl: 1 });
+  });
+});
@@ -0,0 +1,83 @@
+// Shared scaffolding for the vitest suites: PGN text, an in-memory source
+// adapter and a throwaway working directory
+
+import { beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import type { SourceAdapter } from "../scripts/types.js";
+
+/**
+ * One game as PGN text: the tag pairs in the given order, then the movetext
+ */
+function pgn(
+  headers: Record<string, string>,
+  moves = "1. e4 e5 2. Nf3 1-0",
+): string {
+  const tags = Object.entries(headers)
+    .map(([name, value]) => `[${name} "${value}"]`)
+    .join("\n");
+  return `${tags}\n\n${moves}\n\n`;
+}
+
+/**
+ * A SourceAdapter over in-memory PGN files (filename → text). Every file is
+ * discovered and counted as changed; overrides replace any member.
+ */
+function fixtureAdapter(
+  files: Record<string, string>,
+  overrides: Partial<SourceAdapter> = {},
+): SourceAdapter {
+  return {
+    id: "fixture",
+    trackingKey: "fixture",
+    label: "fixture source",
+    throttleMs: 0,
+    filterOptions: {},
+    async discover() {
+      return Object.keys(files).map((filename) => ({
+        filename,
+        url: filename,
+      }));
+    },
+    async checkForChanges(sourceFiles) {
+      return sourceFiles;
+    },
+    async fetch(file) {
+      return file.filename;
+    },
+    async *readPgn(localPath) {
+      yield { stream: Readable.from([files[localPath]]) };
+    },
+    ...overrides,
+  };
+}
+
+/**
+ * Run the current suite in a fresh temp directory so ./data is isolated.
+ * The directory is created before the suite's tests and removed after.
+ */
+function useTempCwd(prefix: string): { readonly dir: string } {
+  let tmpDir = "";
+  let originalCwd = "";
+
+  beforeAll(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    process.chdir(tmpDir);
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  return {
+    get dir() {
+      return tmpDir;
+    },
+  };
+}
+
+export { pgn, fixtureAdapter, useTempCwd };
@@ -0,0 +1,168 @@
+// Unit tests for conditional GET downloads, retries and bounded request concurrency
+// Runs against a local fixture server in a temp working directory
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import http from "http";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  downloadFile,
+  envPositiveInt,
+  mapWithConcurrency,
+  sleep,
+  DOWNLOAD_DIR,
+} from "../scripts/ingest.js";
+
+const ETAG = '"fixture-v1"';
+const BODY = Buffer.from("PK fixture zip bytes");
+
+let server: http.Server;
+let baseUrl: string;
+let tmpDir: string;
+let originalCwd: string;
+const requests: { conditional: boolean; status: number }[] = [];
+// Responses for /flaky/<name>.zip, served in order before a 200
+const failures: { [url: string]: number[] } = {};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    // Connection dropped partway through the body
+    if (req.url!.startsWith("/cut/")) {
+      res.writeHead(200, { "Content-Length": String(BODY.length * 2) });
+      res.write(BODY, () => res.destroy());
+      return;
+    }
+    const failure = failures[req.url!]?.shift();
+    if (failure) {
+      requests.push({ conditional: false, status: failure });
+      res.writeHead(failure);
+      res.end();
+      return;
+    }
+    const conditional = req.headers["if-none-match"] === ETAG;
+    const status = conditional ? 304 : 200;
+    requests.push({ conditional, status });
+    res.writeHead(status, {
+      ETag: ETAG,
+      "Last-Modified": "Wed, 01 May 2024 00:00:00 GMT",
+    });
+    res.end(conditional ? undefined : BODY);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as { port: number };
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  originalCwd = process.cwd();
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "http-cache-test-"));
+  process.chdir(tmpDir);
+  fs.mkdirSync(DOWNLOAD_DIR, { recursive: true });
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  process.chdir(originalCwd);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("conditional GET cache", () => {
+  it("should reuse the cached copy when the server answers 304", async () => {
+    const first = path.join(DOWNLOAD_DIR, "Fixture.zip");
+    expect(await downloadFile(`${baseUrl}/Fixture.zip`, first)).toBe(true);
+    expect(requests.at(-1)).toEqual({ conditional: false, status: 200 });
+
+    const second = path.join(tmpDir, "copy.zip");
+    expect(await downloadFile(`${baseUrl}/Fixture.zip`, second)).toBe(true);
+    expect(requests.at(-1)).toEqual({ conditional: true, status: 304 });
+    expect(fs.readFileSync(second)).toEqual(BODY);
+  });
+
+  it("should do a full GET when the cached copy is gone", async () => {
+    fs.rmSync(path.join(DOWNLOAD_DIR, "Fixture.zip"));
+    fs.rmSync(path.join(tmpDir, "copy.zip"));
+
+    const output = path.join(tmpDir, "fresh.zip");
+    expect(await downloadFile(`${baseUrl}/Fixture.zip`, output)).toBe(true);
+    expect(requests.at(-1)).toEqual({ conditional: false, status: 200 });
+    expect(fs.readFileSync(output)).toEqual(BODY);
+  });
+});
+
+describe("download retries", () => {
+  it("should retry rate limiting and server errors with backoff", async () => {
+    failures["/flaky/Retry.zip"] = [429, 503];
+    const output = path.join(tmpDir, "retry.zip");
+    const started = Date.now();
+
+    expect(
+      await downloadFile(`${baseUrl}/flaky/Retry.zip`, output, 3, 20),
+    ).toBe(true);
+    expect(requests.slice(-3).map((r) => r.status)).toEqual([429, 503, 200]);
+    // 20 ms, then 40 ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(60);
+    expect(fs.readFileSync(output)).toEqual(BODY);
+  });
+
+  it("should give up after the last attempt and not retry a 404", async () => {
+    failures["/flaky/Down.zip"] = [500, 502];
+    const output = path.join(tmpDir, "down.zip");
+    expect(await downloadFile(`${baseUrl}/flaky/Down.zip`, output, 2, 1)).toBe(
+      false,
+    );
+    expect(requests.slice(-2).map((r) => r.status)).toEqual([500, 502]);
+
+    failures["/flaky/Missing.zip"] = [404, 404];
+    const before = requests.length;
+    expect(
+      await downloadFile(`${baseUrl}/flaky/Missing.zip`, output, 3, 1),
+    ).toBe(false);
+    expect(requests.length - before).toBe(1);
+    expect(fs.existsSync(output)).toBe(false);
+  });
+
+  it("should leave nothing behind when the body is cut off", async () => {
+    const output = path.join(tmpDir, "cut.zip");
+    expect(await downloadFile(`${baseUrl}/cut/Cut.zip`, output, 1)).toBe(false);
+    expect(fs.existsSync(output)).toBe(false);
+    expect(fs.existsSync(`${output}.part`)).toBe(false);
+  });
+});
+
+describe("envPositiveInt", () => {
+  afterEach(() => {
+    delete process.env.HTTP_TEST_LIMIT;
+  });
+
+  it("should fall back to the default for unset or invalid values", () => {
+    expect(envPositiveInt("HTTP_TEST_LIMIT", 4)).toBe(4);
+    for (const invalid of ["abc", "0", "-2", "1.5", "  "]) {
+      process.env.HTTP_TEST_LIMIT = invalid;
+      expect(envPositiveInt("HTTP_TEST_LIMIT", 4)).toBe(4);
+    }
+    process.env.HTTP_TEST_LIMIT = "8";
+    expect(envPositiveInt("HTTP_TEST_LIMIT", 4)).toBe(8);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("should cap in-flight calls and keep input order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency(
+      [5, 1, 4, 2, 3, 1],
+      2,
+      async (n) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await sleep(n);
+        inFlight--;
+        return n * 10;
+      },
+    );
+
+    expect(maxInFlight).toBe(2);
+    expect(results).toEqual([50, 10, 40, 20, 30, 10]);
+  });
+});
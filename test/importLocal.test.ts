@@ -0,0 +1,184 @@
+// Unit tests for the local PGN collection importer
+// Uses a temp directory of fixture files instead of real collections
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import AdmZip from "adm-zip";
+import { createLocalAdapter, expandPaths } from "../scripts/importLocal.js";
+import { detectCompression, readPgnFile } from "../scripts/ingest.js";
+import type { PgnText, SiteSourceTracking } from "../scripts/types.js";
+
+const FIXTURE_PGN = `[Event "Club Championship"]
+[Site "Testville"]
+[Date "2024.03.01"]
+[Round "1"]
+[White "Alpha, A"]
+[Black "Beta, B"]
+[Result "1/2-1/2"]
+[WhiteElo "2500"]
+[BlackElo "2480"]
+
+1. d4 Nf6 2. c4 e6 1/2-1/2
+`;
+
+// FIXTURE_PGN compressed with the zstd and bzip2 CLIs
+const FIXTURE_ZST =
+  "KLUv/STHpQQAYkgcGFDXA4eqmiSA3xYsxP+8A8K8QghpMlMEYcAPUvhBtlF7Vg2/javpaTWUwDFjLN57w4zwg/TO2OtqkmvijVUUJ0gH1HIYsZG3pXmbIyMkIpwfny4V4/vlrkLeNd9HAibnru207XIZtUpTHla8s1Y/RgoNCGBYMh0gWNNBq9xWgB1OlVlNu834VeOX5uYIwLQ5yw+IHhM=";
+const FIXTURE_BZ2 =
+  "QlpoOTFBWSZTWXmlThEAADhfgAAQUAf/QD4BHIo/b88AIACSDUeqT0eoEGmmGhAabU2KDTKSHoj1NNND00jQ0xDQWktQWHX539g5OVY1i+ukGDAVci+PDM1eAWUaEBKeUNRdGNg3OkAloINmE7b8aXvJxCSt0qYtMRBgCoD7k4HzBMA8zKmJj+d3d42i8Jw5h62iccYQG1tdpe1AlizG9gkJRiurFpVd/F3JFOFCQeaVOEQ=";
+
+let tmpDir: string;
+
+// Drain each yielded stream so assertions can look at the text
+async function collect(
+  iter: AsyncIterable<PgnText>,
+): Promise<{ entryName?: string; pgn: string }[]> {
+  const out: { entryName?: string; pgn: string }[] = [];
+  for await (const { entryName, stream } of iter) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    out.push({ entryName, pgn: Buffer.concat(chunks).toString("utf-8") });
+  }
+  return out;
+}
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-import-test-"));
+  fs.mkdirSync(path.join(tmpDir, "nested"));
+
+  fs.writeFileSync(path.join(tmpDir, "round1.pgn"), FIXTURE_PGN);
+  fs.writeFileSync(
+    path.join(tmpDir, "nested", "round2.pgn.gz"),
+    zlib.gzipSync(FIXTURE_PGN),
+  );
+  const zip = new AdmZip();
+  zip.addFile("round3.pgn", Buffer.from(FIXTURE_PGN, "utf-8"));
+  zip.addFile("extra/round4.pgn", Buffer.from(FIXTURE_PGN, "utf-8"));
+  zip.addFile("extra/readme.txt", Buffer.from("not a pgn", "utf-8"));
+  zip.writeZip(path.join(tmpDir, "round3.zip"));
+  fs.writeFileSync(
+    path.join(tmpDir, "round5.pgn.zst"),
+    Buffer.from(FIXTURE_ZST, "base64"),
+  );
+  fs.writeFileSync(
+    path.join(tmpDir, "round6.pgn.bz2"),
+    Buffer.from(FIXTURE_BZ2, "base64"),
+  );
+  fs.writeFileSync(path.join(tmpDir, "notes.txt"), "not a pgn");
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("local importer", () => {
+  it("should expand directories to supported files only", () => {
+    const files = expandPaths([tmpDir]).map((f) => path.basename(f.filePath));
+    expect(files).toEqual([
+      "round2.pgn.gz",
+      "round1.pgn",
+      "round3.zip",
+      "round5.pgn.zst",
+      "round6.pgn.bz2",
+    ]);
+  });
+
+  it("should name files by collection and read every format", async () => {
+    const adapter = createLocalAdapter({
+      paths: [tmpDir],
+      collection: "Club 2024",
+    });
+    const files = await adapter.discover();
+    expect(files.map((f) => f.filename).sort()).toEqual([
+      "Club 2024/nested/round2.pgn.gz",
+      "Club 2024/round1.pgn",
+      "Club 2024/round3.zip",
+      "Club 2024/round5.pgn.zst",
+      "Club 2024/round6.pgn.bz2",
+    ]);
+
+    for (const file of files) {
+      const localPath = await adapter.fetch(file);
+      expect(localPath).not.toBeNull();
+      const texts = await collect(adapter.readPgn(localPath!));
+      for (const text of texts) {
+        expect(text.pgn).toContain("Club Championship");
+      }
+      if (file.filename.endsWith(".zip")) {
+        // Every PGN entry, including nested folders
+        expect(texts.map((t) => t.entryName)).toEqual([
+          "extra/round4.pgn",
+          "round3.pgn",
+        ]);
+      } else {
+        expect(texts).toHaveLength(1);
+        expect(texts[0].entryName).toBeUndefined();
+      }
+    }
+  });
+
+  it("should keep same-named files in different subfolders apart", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "local-import-dupes-"));
+    try {
+      for (const folder of ["2023", "2024"]) {
+        fs.mkdirSync(path.join(root, folder));
+        fs.writeFileSync(
+          path.join(root, folder, "round1.pgn"),
+          FIXTURE_PGN.replace("Testville", folder),
+        );
+      }
+      const files = await createLocalAdapter({
+        paths: [root],
+        collection: "Bulletins",
+      }).discover();
+
+      expect(files.map((f) => f.filename)).toEqual([
+        "Bulletins/2023/round1.pgn",
+        "Bulletins/2024/round1.pgn",
+      ]);
+      expect(files[0].contentHash).not.toBe(files[1].contentHash);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("should skip files already imported with the same content", async () => {
+    const adapter = createLocalAdapter({
+      paths: [path.join(tmpDir, "round1.pgn")],
+      collection: "Club 2024",
+    });
+    const [file] = await adapter.discover();
+    const tracking: SiteSourceTracking = { files: { [file.filename]: file } };
+
+    expect(await adapter.checkForChanges([file], tracking)).toEqual([]);
+    expect(
+      await adapter.checkForChanges(
+        [{ ...file, contentHash: "changed" }],
+        tracking,
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("should detect compression from magic bytes, not the extension", async () => {
+    const mislabeled = path.join(tmpDir, "..", "mislabeled-round.pgn");
+    fs.writeFileSync(mislabeled, zlib.gzipSync(FIXTURE_PGN));
+    try {
+      expect(detectCompression(mislabeled)).toBe("gzip");
+      expect(detectCompression(path.join(tmpDir, "round5.pgn.zst"))).toBe(
+        "zstd",
+      );
+      expect(detectCompression(path.join(tmpDir, "round6.pgn.bz2"))).toBe(
+        "bzip2",
+      );
+      expect(detectCompression(path.join(tmpDir, "round1.pgn"))).toBe("none");
+
+      const [text] = await collect(readPgnFile(mislabeled));
+      expect(text.pgn).toBe(FIXTURE_PGN);
+    } finally {
+      fs.rmSync(mislabeled);
+    }
+  });
+});
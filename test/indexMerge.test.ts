@@ -0,0 +1,146 @@
+// Unit tests for merging new and changed games into existing indexes
+
+import { describe, it, expect } from "vitest";
+import {
+  diffGames,
+  indexBuildState,
+  insertSortedId,
+} from "../scripts/indexMerge.js";
+import {
+  buildMergeableIndexes,
+  mergeIndexes,
+} from "../scripts/buildIndexes.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+function game(idx: number, fields: Partial<GameMetadata> = {}): GameMetadata {
+  return {
+    idx,
+    hash: `hash-${idx}`,
+    white: `White ${idx}`,
+    black: `Black ${idx}`,
+    event: "Test Open",
+    date: "2024.01.01",
+    eco: "C20",
+    ecoJsonFen: "fen-e4-e5",
+    ecoJsonOpening: "King's Pawn Game",
+    ecoJsonEco: "C20",
+    timeClass: "classical",
+    ...fields,
+  } as GameMetadata;
+}
+
+// JSON round-trip: files on disk are what must match
+function asJson(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe("diffGames", () => {
+  it("should report new, changed and removed games", () => {
+    const state = indexBuildState([game(0), game(1), game(2)]);
+    const diff = diffGames(
+      [game(0), game(1, { date: "2023.05.05" }), game(3)],
+      state,
+    );
+
+    expect(diff.added.map((g) => g.idx)).toEqual([1, 3]);
+    expect([...diff.removedIds].sort()).toEqual([1, 2]);
+    expect(diff.newGames).toBe(1);
+    expect(diff.changedGames).toBe(1);
+  });
+});
+
+describe("mergeIndexes", () => {
+  it("should match a full build of the new game set", () => {
+    const before = [
+      game(0),
+      game(1, { eco: "B20", ecoJsonOpening: "Sicilian Defense" }),
+      game(2, { date: "1999.??.??" }),
+      game(3, { startFen: "setup-fen", eco: undefined }),
+      game(4, { timeClass: "blitz" }),
+    ];
+    const indexes = buildMergeableIndexes(before);
+    const state = indexBuildState(before);
+
+    const after = [
+      game(0),
+      // Re-enriched with a different opening
+      game(1, {
+        eco: "B20",
+        ecoJsonFen: "fen-sicilian",
+        ecoJsonOpening: "Sicilian Defense",
+        ecoJsonEco: "B20",
+      }),
+      // Game 2 gone (its year and player pair with it), 3 and 4 untouched
+      game(3, { startFen: "setup-fen", eco: undefined }),
+      game(4, { timeClass: "blitz" }),
+      game(5, { date: "2025.03.03", timeClass: "rapid" }),
+      game(6, { ecoJsonOpening: undefined, ecoJsonFen: undefined }),
+    ];
+    const merged = mergeIndexes(
+      asJson(indexes) as typeof indexes,
+      diffGames(after, state),
+    );
+
+    expect(asJson(merged)).toEqual(asJson(buildMergeableIndexes(after)));
+    expect(merged.date["1999"]).toBeUndefined();
+    expect(merged.openingByFen["fen-e4-e5"]).toEqual([0, 3, 4, 5]);
+  });
+});
+
+describe("games sharing an idx", () => {
+  // idx is per source file, so two games can have the same one
+  const sicilian = game(5, {
+    hash: "hash-5-sicilian",
+    eco: "B20",
+    ecoJsonFen: "fen-sicilian",
+    ecoJsonOpening: "Sicilian Defense",
+    ecoJsonEco: "B20",
+  });
+  const french = game(5, {
+    hash: "hash-5-french",
+    eco: "C00",
+    ecoJsonFen: "fen-french",
+    ecoJsonOpening: "French Defense",
+    ecoJsonEco: "C00",
+  });
+
+  it("should see no change when nothing changed", () => {
+    const games = [game(0), sicilian, french];
+    const diff = diffGames(games, indexBuildState(games));
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removedIds.size).toBe(0);
+    expect([diff.newGames, diff.changedGames, diff.removedGames]).toEqual([
+      0, 0, 0,
+    ]);
+  });
+
+  it("should keep both games when one of them changes or is removed", () => {
+    const before = [game(0), sicilian, french];
+    const indexes = buildMergeableIndexes(before);
+    const state = indexBuildState(before);
+
+    for (const after of [
+      [game(0), sicilian, { ...french, date: "2023.05.05" }],
+      [game(0), french],
+      [game(0), sicilian, french, game(5, { hash: "hash-5-new", eco: "A00" })],
+    ]) {
+      const merged = mergeIndexes(
+        asJson(indexes) as typeof indexes,
+        diffGames(after, state),
+      );
+      expect(asJson(merged)).toEqual(asJson(buildMergeableIndexes(after)));
+    }
+    expect(indexes.openingByEco).toMatchObject({ B20: [5], C00: [5] });
+  });
+});
+
+describe("insertSortedId", () => {
+  it("should keep ids ascending and unique", () => {
+    const ids = [1, 4, 9];
+    insertSortedId(ids, 5);
+    insertSortedId(ids, 0);
+    insertSortedId(ids, 4);
+    expect(ids).toEqual([0, 1, 4, 5, 9]);
+  });
+});
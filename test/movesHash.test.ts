@@ -0,0 +1,136 @@
+// Unit tests for move-content hashing and the dedup conflict policy
+
+import { describe, it, expect } from "vitest";
+import { gameMovesHash, normalizeMovesForHash } from "../scripts/hashGame.js";
+import {
+  addToDeduplicationIndex,
+  processGames,
+  emptyDeduplicationIndex,
+} from "../scripts/ingest.js";
+import type {
+  DedupPolicy,
+  DuplicateRecord,
+  GameMetadata,
+} from "../scripts/types.js";
+
+const PGNMENTOR_GAME = `[Event "Tata Steel Masters"]
+[Site "Wijk aan Zee NED"]
+[Date "2024.01.20"]
+[Round "7"]
+[White "Giri, Anish"]
+[Black "Wei, Yi"]
+[Result "1/2-1/2"]
+
+1. d4 Nf6 2. c4 e6 3. Nf3 d5 4. Nc3 Be7 1/2-1/2
+`;
+
+// Same game from another source: different event spelling and round,
+// annotations and a comment in the movetext
+const OTHER_SOURCE_GAME = `[Event "86th Tata Steel Chess"]
+[Site "Wijk aan Zee"]
+[Date "2024.01.20"]
+[Round "7.4"]
+[White "Anish Giri"]
+[Black "Yi Wei"]
+[Result "1/2-1/2"]
+
+1.d4 Nf6 2.c4 e6 {QGD} 3.Nf3 d5! 4.Nc3 (4.g3 dxc4) 4...Be7 1/2-1/2
+`;
+
+// Sloppy headers identical to PGNMENTOR_GAME, but a different game
+const HEADER_TWIN = PGNMENTOR_GAME.replace(
+  "1. d4 Nf6 2. c4 e6",
+  "1. e4 e5 2. Nf3 Nc6",
+);
+
+async function ingest(pgns: string[], policy: DedupPolicy) {
+  const dedup = emptyDeduplicationIndex();
+  const duplicates: DuplicateRecord[] = [];
+  let next = 0;
+  const hashes: string[] = [];
+  for (const pgn of pgns) {
+    const { games, nextIndex } = await processGames(
+      pgn,
+      "fixture.pgn",
+      dedup,
+      next,
+      {
+        source: "fixture",
+        filterOptions: { requireElo: false },
+        dedupPolicy: policy,
+        duplicates,
+      },
+    );
+    next = nextIndex;
+    hashes.push(...games.map((g) => g.hash));
+  }
+  return { hashes, duplicates };
+}
+
+describe("normalizeMovesForHash", () => {
+  it("should strip numbers, comments, variations, NAGs and annotations", () => {
+    expect(
+      normalizeMovesForHash(
+        "1. e4 {best by test} e5!? 2. Nf3+ (2. f4 (2. d4) exf4) $1 Nc6 1-0",
+      ),
+    ).toBe("e4 e5 Nf3 Nc6");
+  });
+});
+
+describe("saved games without a move hash", () => {
+  const saved = (idx: number, startFen?: string) =>
+    ({
+      idx,
+      hash: `hash-${idx}`,
+      white: "Study, Composer",
+      black: "Solver, Sam",
+      moves: "1. Kb2 Kd7 2. Kc3 Ke6",
+      ...(startFen ? { startFen } : {}),
+    }) as GameMetadata;
+
+  it("should hash them with their start position, as processGame does", () => {
+    const index = emptyDeduplicationIndex();
+    const endgames = [
+      saved(0, "8/8/3k4/8/8/8/1K6/8 w - - 0 1"),
+      saved(1, "8/8/3k4/8/8/8/1K6/7R w - - 0 1"),
+    ];
+    for (const game of endgames) addToDeduplicationIndex(index, game);
+
+    expect(Object.values(index.moves)).toEqual([0, 1]);
+    expect(gameMovesHash(saved(2))).not.toBe(gameMovesHash(endgames[0]));
+  });
+});
+
+describe("dedup policy", () => {
+  it("should catch a near-duplicate from another source by default", async () => {
+    const { hashes, duplicates } = await ingest(
+      [PGNMENTOR_GAME, OTHER_SOURCE_GAME],
+      "either",
+    );
+    expect(hashes).toHaveLength(1);
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({
+      kind: "near-duplicate",
+      sourceFile: "fixture.pgn",
+      existingIdx: 0,
+      incoming: { white: "Anish Giri", event: "86th Tata Steel Chess" },
+    });
+  });
+
+  it("should only use header hashes under the headers policy", async () => {
+    const { hashes } = await ingest(
+      [PGNMENTOR_GAME, OTHER_SOURCE_GAME, HEADER_TWIN],
+      "headers",
+    );
+    expect(hashes).toHaveLength(2);
+  });
+
+  it("should import header collisions with different moves under the moves policy", async () => {
+    const { hashes } = await ingest(
+      [PGNMENTOR_GAME, HEADER_TWIN, OTHER_SOURCE_GAME],
+      "moves",
+    );
+    expect(hashes).toHaveLength(2);
+    expect(new Set(hashes).size).toBe(2);
+  });
+});
@@ -0,0 +1,78 @@
+// Unit tests for the shared PGN movetext tokenizer
+
+import { describe, it, expect } from "vitest";
+import { parseSanMoves, tokenizeMovetext } from "../scripts/movetext.js";
+import { stripAnnotations } from "../scripts/filterGame.js";
+
+describe("parseSanMoves", () => {
+  it("should drop nested variations, NAGs, glyphs and comments", () => {
+    expect(
+      parseSanMoves(
+        "1. e4 {best by test} e5!? 2. Nf3 (2. f4 exf4 (2... d5) 3. Nf3) $1 Nc6 ; line comment\n3. Bb5 a6?! 1-0",
+      ),
+    ).toEqual(["e4", "e5", "Nf3", "Nc6", "Bb5", "a6"]);
+  });
+
+  it("should handle every move number form", () => {
+    expect(parseSanMoves("1.e4 1...e5 2. Nf3 2... Nc6 3.Bc4 Bc5")).toEqual([
+      "e4",
+      "e5",
+      "Nf3",
+      "Nc6",
+      "Bc4",
+      "Bc5",
+    ]);
+  });
+
+  it("should skip escape lines, stray tags and normalize zero castling", () => {
+    const movetext = `[Event "Legacy"]
+1. e4 e5 2. Nf3 Nc6
+%evaluation 0.31 depth 20
+3. Bc4 Bc5 4. 0-0 Nf6 1/2-1/2`;
+    expect(parseSanMoves(movetext)).toEqual([
+      "e4",
+      "e5",
+      "Nf3",
+      "Nc6",
+      "Bc4",
+      "Bc5",
+      "O-O",
+      "Nf6",
+    ]);
+  });
+
+  it("should treat an unterminated comment as running to the end", () => {
+    expect(parseSanMoves("1. d4 d5 {lost the rest 2. c4")).toEqual([
+      "d4",
+      "d5",
+    ]);
+  });
+});
+
+describe("tokenizeMovetext", () => {
+  it("should tag variation depth and convert glyphs to NAGs", () => {
+    const tokens = tokenizeMovetext("1. e4!! (1. d4 (1. c4)) 1-0");
+    expect(tokens.map((t) => [t.type, t.value, t.depth])).toEqual([
+      ["moveNumber", "1.", 0],
+      ["move", "e4", 0],
+      ["nag", "$3", 0],
+      ["ravStart", "(", 0],
+      ["moveNumber", "1.", 1],
+      ["move", "d4", 1],
+      ["ravStart", "(", 1],
+      ["moveNumber", "1.", 2],
+      ["move", "c4", 2],
+      ["ravEnd", ")", 1],
+      ["ravEnd", ")", 0],
+      ["result", "1-0", 0],
+    ]);
+  });
+});
+
+describe("stripAnnotations", () => {
+  it("should keep move numbers and moves only", () => {
+    expect(
+      stripAnnotations("1. e4 $1 {c} e5 (1... c5 (1... e6)) 2. Nf3 *"),
+    ).toBe("1. e4 e5 2. Nf3 *");
+  });
+});
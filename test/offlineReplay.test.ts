@@ -0,0 +1,93 @@
+// Unit tests for offline replay of already-downloaded source files
+// Runs in a temp working directory with network access stubbed out
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import AdmZip from "adm-zip";
+import {
+  runIngest,
+  createOfflineAdapter,
+  readZipPgn,
+  loadExistingChunksData,
+  saveSourceTracking,
+  DOWNLOAD_DIR,
+  INDEXES_DIR,
+} from "../scripts/ingest.js";
+import { fixtureAdapter, pgn, useTempCwd } from "./fixtures.js";
+
+const FIXTURE_PGN = pgn(
+  {
+    Event: "Replay Masters",
+    Site: "Testville",
+    Date: "2023.11.04",
+    Round: "3",
+    White: "Alpha, A",
+    Black: "Beta, B",
+    Result: "0-1",
+  },
+  "1. c4 e5 0-1",
+);
+
+const onlineAdapter = fixtureAdapter(
+  {},
+  {
+    filterOptions: { requireElo: false },
+    async discover() {
+      throw new Error("discover() must not run offline");
+    },
+    async checkForChanges() {
+      throw new Error("checkForChanges() must not run offline");
+    },
+    async fetch() {
+      throw new Error("fetch() must not run offline");
+    },
+    readPgn: readZipPgn,
+  },
+);
+
+useTempCwd("offline-replay-test-");
+
+beforeAll(() => {
+  fs.mkdirSync(DOWNLOAD_DIR, { recursive: true });
+  const zip = new AdmZip();
+  zip.addFile("Alpha.pgn", Buffer.from(FIXTURE_PGN, "utf-8"));
+  zip.writeZip(path.join(DOWNLOAD_DIR, "Alpha.zip"));
+
+  saveSourceTracking({
+    fixture: {
+      files: {
+        "Alpha.zip": {
+          filename: "Alpha.zip",
+          url: "https://example.invalid/Alpha.zip",
+          lastModified: "Sat, 04 Nov 2023 00:00:00 GMT",
+          gameCount: 1,
+        },
+        "Gone.zip": {
+          filename: "Gone.zip",
+          url: "https://example.invalid/Gone.zip",
+        },
+      },
+    },
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("offline replay", () => {
+  it("should reprocess tracked local files without network access", async () => {
+    const fetchSpy = vi.fn(() => {
+      throw new Error("network access in offline mode");
+    });
+    vi.stubGlobal("fetch", fetchSpy);
+
+    await runIngest(createOfflineAdapter(onlineAdapter));
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    const { maxGameId, lastChunk } = loadExistingChunksData(INDEXES_DIR);
+    expect(maxGameId).toBe(0);
+    expect(lastChunk!.games[0].sourceFile).toBe("Alpha.zip:Alpha.pgn");
+  });
+});
@@ -0,0 +1,113 @@
+// Unit tests for the incremental PGN game splitter
+
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import AdmZip from "adm-zip";
+import { splitPgnGames } from "../scripts/pgnStream.js";
+import { readZipPgn } from "../scripts/ingest.js";
+
+const GAME_1 = `[Event "Stream Open"]
+[White "Alpha, A"]
+[Black "Beta, B"]
+[Result "1-0"]
+
+1. e4 { a comment that spans
+[Lines "that look like tags"] } e5 2. Nf3 1-0`;
+
+const GAME_2 = `[Event "Stream Open"]
+[White "Gamma, C"]
+[Black "Delta, D"]
+[Result "0-1"]
+
+1. d4 d5 0-1`;
+
+async function split(
+  chunks: (string | Buffer)[],
+  maxGameBytes?: number,
+): Promise<(string | null)[]> {
+  const games: (string | null)[] = [];
+  async function* source() {
+    yield* chunks;
+  }
+  for await (const game of splitPgnGames(source(), maxGameBytes)) {
+    games.push(game.text);
+  }
+  return games;
+}
+
+describe("splitPgnGames", () => {
+  it("should split games and keep tag-like lines inside comments", async () => {
+    const games = await split([`${GAME_1}\n\n${GAME_2}\n`]);
+    expect(games).toHaveLength(2);
+    expect(games[0]).toContain("[Lines");
+    expect(games[1]).toContain("Gamma, C");
+  });
+
+  it("should not depend on where chunk boundaries fall", async () => {
+    const text = `${GAME_1}\r\n\r\n${GAME_2}`;
+    const bytes = Buffer.from(text.replace("Alpha", "Älpha"), "utf-8");
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < bytes.length; i += 7) {
+      chunks.push(bytes.subarray(i, i + 7)); // splits lines and UTF-8 chars
+    }
+
+    const games = await split(chunks);
+    expect(games).toHaveLength(2);
+    expect(games[0]).toContain("Älpha, A");
+    expect(games[0]).not.toContain("\r");
+  });
+
+  it("should drop games larger than the buffer limit", async () => {
+    const huge = GAME_2.replace("1. d4 d5", "1. d4 d5 ".repeat(200));
+    const games = await split([`${GAME_1}\n\n${huge}\n\n${GAME_2}`], 1000);
+    expect(games).toHaveLength(3);
+    expect(games[1]).toBeNull();
+    expect(games[2]).toContain("Gamma, C");
+  });
+
+  it("should report the line each game starts on", async () => {
+    async function* source() {
+      yield `\n${GAME_1}\n\n\n${GAME_2}\n`;
+    }
+    const lines: number[] = [];
+    for await (const game of splitPgnGames(source())) {
+      lines.push(game.line);
+    }
+    // GAME_1 is 7 lines, followed by two blank lines
+    expect(lines).toEqual([2, 11]);
+  });
+});
+
+describe("readZipPgn", () => {
+  it("should stream an inflated entry in bounded chunks", async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "zip-stream-test-"));
+    try {
+      const text = `${GAME_2}\n\n`.repeat(2000); // ~170 KB
+      const zip = new AdmZip();
+      zip.addFile("big.pgn", Buffer.from(text, "utf-8"));
+      zip.writeZip(path.join(tmpDir, "big.zip"));
+
+      const sizes: number[] = [];
+      let games = 0;
+      for await (const { stream } of readZipPgn(path.join(tmpDir, "big.zip"))) {
+        async function* tracked() {
+          for await (const chunk of stream) {
+            sizes.push(chunk.length);
+            yield chunk as Buffer;
+          }
+        }
+        for await (const game of splitPgnGames(tracked())) {
+          if (game.text) games++;
+        }
+      }
+
+      expect(games).toBe(2000);
+      expect(sizes.length).toBeGreaterThan(1);
+      expect(Math.max(...sizes)).toBeLessThanOrEqual(64 * 1024);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,99 @@
+// Unit tests for player name canonicalization and the alias registry
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizePlayerName,
+  createPlayerNameResolver,
+  canonicalizePlayers,
+} from "../scripts/playerNames.js";
+import { hashGame } from "../scripts/hashGame.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+function game(idx: number, white: string, black: string): GameMetadata {
+  return {
+    idx,
+    white,
+    black,
+    whiteElo: 0,
+    blackElo: 0,
+    result: "1-0",
+    date: "2024.01.01",
+    event: "Names Open",
+    site: "?",
+    moves: "1. e4 e5 1-0",
+    ply: 0,
+    source: "fixture",
+    sourceFile: "fixture.pgn",
+    hash: `h${idx}`,
+  };
+}
+
+describe("normalizePlayerName", () => {
+  it("should bring common header spellings to surname, given form", () => {
+    expect(normalizePlayerName("Carlsen, Magnus")).toBe("carlsen, magnus");
+    expect(normalizePlayerName("Carlsen,M.")).toBe("carlsen, m");
+    expect(normalizePlayerName("Magnus  Carlsen")).toBe("carlsen, magnus");
+    expect(normalizePlayerName("Van Wely L")).toBe("van wely, l");
+    expect(normalizePlayerName("Loek van Wely")).toBe("van wely, loek");
+    expect(normalizePlayerName("Ljubojević, Ljubomir")).toBe(
+      "ljubojevic, ljubomir",
+    );
+    expect(normalizePlayerName("?")).toBe("");
+  });
+});
+
+describe("hashGame", () => {
+  it("should hash surname/initial variants of the same pairing alike", () => {
+    const base = {
+      Event: "Names Open",
+      Date: "2024.01.01",
+      Round: "1",
+      Black: "Caruana, Fabiano",
+    };
+    const a = hashGame({ ...base, White: "Carlsen, Magnus" });
+    expect(hashGame({ ...base, White: "Carlsen,M" })).toBe(a);
+    expect(hashGame({ ...base, White: "Magnus Carlsen" })).toBe(a);
+    expect(hashGame({ ...base, White: "Nakamura, Hikaru" })).not.toBe(a);
+  });
+});
+
+describe("canonicalizePlayers", () => {
+  it("should fold variants and aliases into one player", () => {
+    const resolver = createPlayerNameResolver({
+      "Kasparov, Garry": ["Kasparov, Gary"],
+    });
+    const { canonicalNames, review } = canonicalizePlayers(
+      [
+        game(0, "Carlsen, Magnus", "Kasparov, Gary"),
+        game(1, "Carlsen,M", "Kasparov, Garry"),
+        game(2, "Magnus Carlsen", "Carlsen, Magnus"),
+      ],
+      resolver,
+    );
+
+    expect(canonicalNames.get("Carlsen,M")).toBe("Carlsen, Magnus");
+    expect(canonicalNames.get("Magnus Carlsen")).toBe("Carlsen, Magnus");
+    expect(canonicalNames.get("Kasparov, Gary")).toBe("Kasparov, Garry");
+    expect(review.players).toBe(2);
+  });
+
+  it("should report initials that match several full names", () => {
+    const { canonicalNames, review } = canonicalizePlayers(
+      [
+        game(0, "Polgar, Judit", "Polgar, Susan"),
+        game(1, "Polgar, J", "Polgar, Sofia"),
+        game(2, "Polgar, S", "Topalov, Veselin"),
+      ],
+      createPlayerNameResolver(),
+    );
+
+    expect(canonicalNames.get("Polgar, J")).toBe("Polgar, Judit");
+    expect(review.ambiguous).toEqual([
+      {
+        name: "polgar, s",
+        games: 1,
+        candidates: ["polgar, sofia", "polgar, susan"],
+      },
+    ]);
+  });
+});
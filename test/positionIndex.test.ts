@@ -0,0 +1,169 @@
+// Unit tests for the sharded, transposition-aware position index
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ChessPGN } from "@chess-pgn/chess-pgn";
+import {
+  buildPositionIndex,
+  gamePositions,
+  loadPositionIndex,
+  mergePositionIndex,
+  replayGames,
+  savePositionIndex,
+  POSITION_INDEX_MANIFEST,
+} from "../scripts/positionIndex.js";
+import { diffGames, indexBuildState } from "../scripts/indexMerge.js";
+import { shardByPrefix } from "../scripts/shards.js";
+import type { GameMetadata, PositionIndexManifest } from "../scripts/types.js";
+
+function game(idx: number, moves: string): GameMetadata {
+  return { idx, hash: `hash-${idx}`, moves } as GameMetadata;
+}
+
+function hashAfter(moves: string[]): string {
+  const chess = new ChessPGN();
+  for (const move of moves) chess.move(move);
+  return chess.hash();
+}
+
+const GAMES = [
+  game(0, "e4 e5 Nf3 Nc6 Bb5 a6"),
+  game(1, "Nf3 Nc6 e4 e5 Bb5 Nf6"), // Transposes into game 0 at ply 4
+  game(2, "d4 d5 c4 e6"),
+];
+
+function positionIndex(games: GameMetadata[]) {
+  return buildPositionIndex(games, replayGames(games, 6));
+}
+
+describe("gamePositions", () => {
+  it("should stop at the ply limit and at illegal moves", () => {
+    const chess = new ChessPGN();
+    expect(gamePositions(chess, GAMES[0], 3).positions).toHaveLength(3);
+    expect(gamePositions(chess, game(9, "e4 e5 Ke3 Nf6"), 10)).toEqual({
+      start: hashAfter([]),
+      positions: [hashAfter(["e4"]), hashAfter(["e4", "e5"])],
+    });
+  });
+});
+
+describe("buildPositionIndex", () => {
+  it("should list transposed games under one position", () => {
+    const index = positionIndex(GAMES);
+    const ruyLopez = hashAfter(["e4", "e5", "Nf3", "Nc6", "Bb5"]);
+
+    expect(index[ruyLopez]).toEqual([0, 1]);
+    expect(index[hashAfter(["e4"])]).toEqual([0]);
+    expect(index[hashAfter(["d4", "d5", "c4"])]).toEqual([2]);
+  });
+
+  it("should keep games that share an idx apart", () => {
+    // idx is per source file, so two games can have the same one
+    const sicilian = { ...game(5, "e4 c5 Nf3"), hash: "hash-5-sicilian" };
+    const queensGambit = { ...game(5, "d4 d5 c4"), hash: "hash-5-qgd" };
+    const before = [GAMES[0], sicilian, queensGambit];
+    const index = positionIndex(before);
+
+    expect(index[hashAfter(["e4", "c5"])]).toEqual([5]);
+    expect(index[hashAfter(["d4", "d5"])]).toEqual([5]);
+    expect(index[hashAfter(["e4", "e5"])]).toEqual([0]);
+
+    const after = [GAMES[0], { ...sicilian, moves: "e4 c6" }, queensGambit];
+    const diff = diffGames(after, indexBuildState(before));
+    expect(
+      mergePositionIndex(
+        structuredClone(index),
+        diff,
+        replayGames(diff.added, 6),
+      ),
+    ).toEqual(positionIndex(after));
+  });
+
+  it("should merge to the same index as a full build", () => {
+    const before = positionIndex(GAMES);
+    const after = [GAMES[0], game(2, "c4 e5"), game(3, "Nf3 d5 d4")];
+    const diff = diffGames(after, indexBuildState(GAMES));
+    const merged = mergePositionIndex(
+      structuredClone(before),
+      diff,
+      replayGames(diff.added, 6),
+    );
+    expect(merged).toEqual(positionIndex(after));
+  });
+});
+
+describe("position index shards", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "position-index-test-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should shard by hash prefix under the size limit and load back", () => {
+    const index = positionIndex(GAMES);
+    const manifest = savePositionIndex(index, tmpDir, 6, {
+      maxShardBytes: 40,
+    });
+    fs.writeFileSync(
+      path.join(tmpDir, POSITION_INDEX_MANIFEST),
+      JSON.stringify(manifest),
+    );
+
+    expect(manifest.totalPositions).toBe(Object.keys(index).length);
+    expect(manifest.prefixLength).toBeGreaterThan(1);
+    for (const [prefix, shard] of Object.entries(manifest.shards)) {
+      expect(prefix).toHaveLength(manifest.prefixLength);
+      const file = path.join(tmpDir, path.basename(shard.blobKey));
+      expect(fs.statSync(file).size).toBeLessThanOrEqual(40);
+    }
+
+    // A client finds a position's shard from its hash alone
+    const ruyLopez = hashAfter(["e4", "e5", "Nf3", "Nc6", "Bb5"]);
+    const prefix = ruyLopez.slice(0, manifest.prefixLength);
+    const shard = JSON.parse(
+      fs.readFileSync(
+        path.join(tmpDir, `position-shard-${prefix}.json`),
+        "utf-8",
+      ),
+    );
+    expect(shard[ruyLopez]).toEqual([0, 1]);
+
+    expect(loadPositionIndex(tmpDir, 6)).toEqual(index);
+    // Built to another depth: not reusable
+    expect(loadPositionIndex(tmpDir, 8)).toBeNull();
+  });
+
+  it("should warn when one key is too big for any shard", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const { prefixLength, shards } = shardByPrefix(
+        { ab: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], cd: [1] },
+        20,
+      );
+
+      expect(prefixLength).toBe(2);
+      expect(shards.get("ab")).toEqual({ ab: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] });
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain("Shard ab is");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("should remove shards of an earlier prefix length", () => {
+    const index = positionIndex(GAMES);
+    const manifest: PositionIndexManifest = savePositionIndex(index, tmpDir, 6);
+    const shardFiles = fs
+      .readdirSync(tmpDir)
+      .filter((f) => f.startsWith("position-shard-"));
+
+    expect(manifest.prefixLength).toBe(1);
+    expect(shardFiles).toHaveLength(Object.keys(manifest.shards).length);
+  });
+});
@@ -0,0 +1,127 @@
+// Unit tests for the quarantine store and the retry command
+// Runs in a temp working directory so ./data is isolated
+
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import { runIngest, loadRunJournal, INDEXES_DIR } from "../scripts/ingest.js";
+import {
+  loadQuarantine,
+  saveQuarantine,
+  QUARANTINE_PATH,
+} from "../scripts/quarantine.js";
+import { retryQuarantine } from "../scripts/retryQuarantine.js";
+import type { GameMetadata, QuarantineEntry } from "../scripts/types.js";
+import { fixtureAdapter, pgn, useTempCwd } from "./fixtures.js";
+
+const GOOD = pgn(
+  {
+    Event: "Quarantine Open",
+    Site: "Testville",
+    Date: "2024.05.01",
+    White: "Alpha, Anna",
+    Black: "Beta, Boris",
+    Result: "1-0",
+  },
+  "1. e4 e5 2. Nf3 Nc6 1-0",
+);
+
+// Movetext with no tag pairs: indexPgnGames finds no headers. It has to
+// precede a game, or the splitter reads it as more of the previous movetext.
+const HEADERLESS = `1. d4 d5 2. c4 0-1
+`;
+
+const adapter = fixtureAdapter(
+  { "mixed.pgn": `\n\n${HEADERLESS}\n${GOOD}` },
+  { filterOptions: { requireElo: false } },
+);
+
+function entry(overrides: Partial<QuarantineEntry>): QuarantineEntry {
+  return {
+    id: overrides.pgn ?? "",
+    stage: "ingest",
+    reason: "parse error",
+    runId: "fixture@2024-05-01T00:00:00.000Z",
+    source: "fixture",
+    sourceFile: "old.pgn",
+    filterOptions: { requireElo: false },
+    pgn: "",
+    quarantinedAt: "2024-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function chunkGames(): GameMetadata[] {
+  return JSON.parse(
+    fs.readFileSync(path.join(INDEXES_DIR, "chunk-0.json"), "utf-8"),
+  ).games;
+}
+
+useTempCwd("quarantine-test-");
+
+describe("quarantine", () => {
+  it("should keep games that fail to parse with their source position", async () => {
+    await runIngest(adapter);
+
+    const entries = loadQuarantine();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      stage: "ingest",
+      reason: "No PGN headers found",
+      source: "fixture",
+      sourceFile: "mixed.pgn",
+      line: 3,
+      pgn: HEADERLESS.trim(),
+    });
+
+    const journal = loadRunJournal("fixture")!;
+    expect(entries[0].runId).toBe(`fixture@${journal.startedAt}`);
+    expect(journal.stats.quarantined).toBe(1);
+    expect(journal.stats.rejected).toBe(1);
+    expect(chunkGames()).toHaveLength(1);
+  });
+
+  it("should not store the same failure twice", async () => {
+    await runIngest(adapter);
+    expect(loadQuarantine()).toHaveLength(1);
+  });
+
+  it("should import, release or keep entries on retry", async () => {
+    const fixed = GOOD.replace("Alpha, Anna", "Gamma, Gina");
+    saveQuarantine([
+      ...loadQuarantine(),
+      entry({ pgn: fixed }), // Parses now
+      entry({ pgn: GOOD }), // Parses now, but already imported
+      entry({
+        stage: "enrich",
+        reason: "Invalid move: Nf6",
+        idx: 0,
+        pgn: `[White "Delta, D"]\n\n1. e4 e5 2. Nf3`,
+      }),
+      entry({
+        stage: "enrich",
+        reason: "Invalid move: Ke3",
+        idx: 1,
+        pgn: `[White "Echo, E"]\n\n1. e4 e5 2. Ke3`,
+      }),
+    ]);
+
+    const result = await retryQuarantine();
+    expect(result).toEqual({
+      imported: 1,
+      dropped: 1,
+      released: 1,
+      stillFailing: 2,
+    });
+
+    const games = chunkGames();
+    expect(games.map((g) => g.white)).toEqual(["Alpha, Anna", "Gamma, Gina"]);
+    expect(games[1].idx).toBe(games[0].idx + 1);
+
+    const remaining = loadQuarantine(QUARANTINE_PATH);
+    expect(remaining.map((e) => e.reason)).toEqual([
+      "No PGN headers found",
+      "Invalid move: Ke3",
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+// Unit tests for rejection reasons in ingest stats and source tracking
+// Runs in a temp working directory so ./data is isolated
+
+import { describe, it, expect } from "vitest";
+import { shouldImportGame } from "../scripts/filterGame.js";
+import { loadSourceTracking, runIngest } from "../scripts/ingest.js";
+import { fixtureAdapter, pgn, useTempCwd } from "./fixtures.js";
+
+function game(headers: Record<string, string>): string {
+  return pgn({
+    Event: "Rejection Open",
+    Date: "2024.05.01",
+    White: "Alpha, Anna",
+    Black: "Beta, Boris",
+    WhiteElo: "2500",
+    BlackElo: "2500",
+    Result: "1-0",
+    ...headers,
+  });
+}
+
+const adapter = fixtureAdapter({
+  "week1.pgn":
+    game({ Round: "1" }) +
+    game({ Round: "2", BlackElo: "2100" }) +
+    game({ Round: "3", TimeControl: "180+2" }),
+  "week2.pgn":
+    game({ Round: "4", Variant: "Chess960" }) +
+    game({ Round: "5", Result: "*" }) +
+    game({ Round: "6", WhiteElo: "2000" }),
+});
+
+describe("shouldImportGame verdicts", () => {
+  it("should name the rule that failed", () => {
+    expect(
+      shouldImportGame({ headers: { Result: "*", WhiteElo: "2500" } }),
+    ).toEqual({ accepted: false, rule: "unfinished", detail: "Result *" });
+    expect(
+      shouldImportGame({
+        headers: { Result: "1-0", WhiteElo: "2400", BlackElo: "2650" },
+      }),
+    ).toEqual({
+      accepted: false,
+      rule: "elo",
+      detail: "WhiteElo 2400, BlackElo 2650 not > 2400 (both)",
+    });
+    expect(
+      shouldImportGame(
+        { headers: { Result: "1-0", WhiteTitle: "GM", BlackTitle: "" } },
+        { requireElo: false, requireTitles: true },
+      ),
+    ).toMatchObject({ accepted: false, rule: "titles" });
+    expect(
+      shouldImportGame({ headers: { Result: "1-0" } }, { requireElo: false }),
+    ).toEqual({ accepted: true });
+  });
+});
+
+describe("rejection breakdowns", () => {
+  useTempCwd("rejections-test-");
+
+  it("should record reasons per file and for the run in source tracking", async () => {
+    await runIngest(adapter);
+
+    const site = loadSourceTracking().fixture!;
+    expect(site.files["week1.pgn"].rejections).toEqual({
+      elo: 1,
+      timeControl: 1,
+    });
+    expect(site.files["week2.pgn"].rejections).toEqual({
+      variant: 1,
+      unfinished: 1,
+      elo: 1,
+    });
+
+    expect(site.lastRun).toMatchObject({
+      files: ["week1.pgn", "week2.pgn"],
+      stats: {
+        total: 6,
+        accepted: 1,
+        rejected: 5,
+        rejections: { elo: 2, timeControl: 1, variant: 1, unfinished: 1 },
+      },
+    });
+    expect(site.lastRun!.runId).toBe(`fixture@${site.lastRun!.startedAt}`);
+  });
+});
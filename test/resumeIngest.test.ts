@@ -0,0 +1,135 @@
+// Unit tests for resuming an interrupted runIngest() from its run journal
+// Runs in a temp working directory so ./data is isolated
+
+import { describe, it, expect, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import {
+  runIngest,
+  loadRunJournal,
+  loadExistingChunksData,
+  processGames,
+  emptyDeduplicationIndex,
+  saveGamesToChunks,
+  writeJsonAtomic,
+  INDEXES_DIR,
+  DOWNLOAD_DIR,
+} from "../scripts/ingest.js";
+import type { RunJournal } from "../scripts/types.js";
+import { fixtureAdapter, pgn, useTempCwd } from "./fixtures.js";
+
+function fixturePgn(prefix: string, count: number): string {
+  let text = "";
+  for (let i = 0; i < count; i++) {
+    text += pgn(
+      {
+        Event: "Resume Open",
+        Site: "Testville",
+        Date: "2024.05.01",
+        Round: String(i + 1),
+        White: `${prefix} White ${i}`,
+        Black: `${prefix} Black ${i}`,
+        Result: "1-0",
+        WhiteElo: "2600",
+        BlackElo: "2600",
+      },
+      "1. e4 e5 1-0",
+    );
+  }
+  return text;
+}
+
+const FILES = { "a.pgn": fixturePgn("A", 3), "b.pgn": fixturePgn("B", 4) };
+
+const adapter = fixtureAdapter(FILES);
+const discover = vi.spyOn(adapter, "discover");
+
+useTempCwd("resume-ingest-test-");
+
+describe("resumable ingest", () => {
+  it("should resume from the journal without losing or duplicating games", async () => {
+    // Simulate a run that died partway through b.pgn: a.pgn is complete,
+    // and the first two games of b.pgn were already flushed to chunks
+    const dedup = emptyDeduplicationIndex();
+    const a = await processGames(FILES["a.pgn"], "a.pgn", dedup, 0, {
+      source: "fixture",
+      filterOptions: {},
+    });
+    const bPartial = await processGames(
+      fixturePgn("B", 2),
+      "b.pgn",
+      dedup,
+      a.nextIndex,
+      { source: "fixture", filterOptions: {} },
+    );
+    saveGamesToChunks([...a.games, ...bPartial.games], INDEXES_DIR, null);
+
+    fs.mkdirSync(DOWNLOAD_DIR, { recursive: true });
+    const journal: RunJournal = {
+      adapterId: "fixture",
+      trackingKey: "fixture",
+      status: "running",
+      startedAt: "2024-05-01T00:00:00.000Z",
+      updatedAt: "2024-05-01T00:00:00.000Z",
+      files: [
+        { filename: "a.pgn", url: "a.pgn" },
+        { filename: "b.pgn", url: "b.pgn" },
+      ],
+      completedFiles: ["a.pgn"],
+      currentFile: "b.pgn",
+      nextGameId: a.nextIndex,
+      lastChunk: { id: 0, gameCount: a.games.length },
+      stats: a.stats,
+    };
+    writeJsonAtomic(
+      path.join(DOWNLOAD_DIR, "run-journal-fixture.json"),
+      journal,
+    );
+
+    await runIngest(adapter);
+
+    expect(discover).toHaveBeenCalledTimes(0); // Resumed the journal's file list
+
+    const { maxGameId, deduplicationIndex } =
+      loadExistingChunksData(INDEXES_DIR);
+    expect(maxGameId).toBe(6); // 3 + 4 games, ids 0..6
+    expect(Object.keys(deduplicationIndex.headers)).toHaveLength(7);
+
+    const finished = loadRunJournal("fixture")!;
+    expect(finished.status).toBe("complete");
+    expect(finished.completedFiles).toEqual(["a.pgn", "b.pgn"]);
+    expect(finished.nextGameId).toBe(7);
+    expect(finished.stats.duplicates).toBe(2); // b.pgn games saved pre-crash
+  });
+
+  it("should plan a fresh run once the journal is complete", async () => {
+    await runIngest(adapter);
+    expect(discover).toHaveBeenCalledTimes(1);
+
+    const journal = loadRunJournal("fixture")!;
+    expect(journal.status).toBe("complete");
+    expect(journal.stats.accepted).toBe(0); // everything already imported
+  });
+
+  it("should not resume a journal from a run with other inputs", async () => {
+    const interrupted: RunJournal = {
+      ...loadRunJournal("fixture")!,
+      status: "running",
+      files: [{ filename: "stale.pgn", url: "stale.pgn" }],
+      completedFiles: [],
+      inputs: { mode: "offline" },
+    };
+    writeJsonAtomic(
+      path.join(DOWNLOAD_DIR, "run-journal-fixture.json"),
+      interrupted,
+    );
+
+    await runIngest(adapter);
+    expect(discover).toHaveBeenCalledTimes(2); // Rediscovered instead of resuming
+
+    const journal = loadRunJournal("fixture")!;
+    expect(journal.status).toBe("complete");
+    expect(journal.inputs).toEqual({ mode: "online" });
+    expect(journal.completedFiles).not.toContain("stale.pgn");
+  });
+});
@@ -237,7 +237,8 @@ function testDeduplicationIndex() {
   }
 
   const dedupIndex = JSON.parse(fs.readFileSync(dedupPath, "utf-8"));
-  const uniqueHashes = Object.keys(dedupIndex).length;
+  // Flat hash → idx map before move hashes were added
+  const uniqueHashes = Object.keys(dedupIndex.headers ?? dedupIndex).length;
 
   console.log(`  Unique game hashes: ${uniqueHashes}`);
 
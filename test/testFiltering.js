@@ -92,7 +92,8 @@ async function testFiltering() {
     chess.loadPgn(pgnText);
     const header = chess.header();
     console.log(`Testing: ${header.Event}`);
-    if (shouldImportGame(chess)) {
+    const verdict = shouldImportGame(chess);
+    if (verdict.accepted) {
       console.log("✅ ACCEPTED");
       // Test annotation stripping
       const pgn = chess.pgn();
@@ -106,15 +107,7 @@ async function testFiltering() {
       accepted++;
     } else {
       console.log("❌ REJECTED");
-      if (header.Variant && header.Variant !== "Standard") {
-        console.log("  Reason: Variant chess");
-      } else if (header.FEN) {
-        console.log("  Reason: FEN setup");
-      } else {
-        const whiteElo = parseInt(header.WhiteElo || "0");
-        const blackElo = parseInt(header.BlackElo || "0");
-        console.log(`  Reason: Low rating (W:${whiteElo}, B:${blackElo})`);
-      }
+      console.log(`  Reason: ${verdict.rule} (${verdict.detail})`);
       rejected++;
     }
     console.log("");
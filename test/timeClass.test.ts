@@ -0,0 +1,71 @@
+// Unit tests for time class classification and the time-class index
+
+import { describe, it, expect } from "vitest";
+import { classifyTimeClass } from "../scripts/filterGame.js";
+import { emptyDeduplicationIndex, processGames } from "../scripts/ingest.js";
+import {
+  backfillTimeClasses,
+  buildTimeClassIndex,
+} from "../scripts/buildIndexes.js";
+import type { GameMetadata } from "../scripts/types.js";
+
+describe("classifyTimeClass", () => {
+  it("should prefer the TimeControl header", () => {
+    expect(classifyTimeClass("300+3", "World Rapid Championship")).toBe(
+      "blitz",
+    );
+    expect(classifyTimeClass("5400+30", undefined)).toBe("classical");
+  });
+
+  it("should fall back to the event name", () => {
+    expect(classifyTimeClass(undefined, "Tata Steel Blitz")).toBe("blitz");
+    expect(classifyTimeClass("?", "Norway Chess Armageddon")).toBe("blitz");
+    expect(classifyTimeClass("-", "ICCF World Cup 21")).toBe("correspondence");
+    expect(classifyTimeClass(undefined, "Champions Chess Tour Rapid")).toBe(
+      "rapid",
+    );
+    expect(classifyTimeClass(undefined, "Tata Steel Masters")).toBe("unknown");
+  });
+});
+
+describe("timeClass at ingest and in the index", () => {
+  it("should set timeClass on imported games", async () => {
+    const { games } = await processGames(
+      `[Event "Sinquefield Cup"]
+[White "Alpha, Anna"]
+[Black "Beta, Boris"]
+[Result "1-0"]
+[TimeControl "40/7200:3600"]
+
+1. e4 e5 1-0
+
+[Event "Speed Chess Championship"]
+[White "Gamma, Gina"]
+[Black "Delta, Dan"]
+[Result "0-1"]
+
+1. d4 d5 0-1
+`,
+      "time.pgn",
+      emptyDeduplicationIndex(),
+      0,
+      { source: "fixture", filterOptions: { requireElo: false } },
+    );
+    expect(games.map((g) => g.timeClass)).toEqual(["classical", "blitz"]);
+  });
+
+  it("should backfill older games and index every class", () => {
+    const games = [
+      { idx: 0, hash: "a", event: "Casablanca Rapid", timeClass: undefined },
+      { idx: 1, hash: "b", event: "Dortmund", timeClass: "classical" },
+      { idx: 2, hash: "c", event: "Dortmund", timeClass: undefined },
+    ] as unknown as GameMetadata[];
+
+    expect([...backfillTimeClasses(games)]).toEqual(["a", "c"]);
+    expect(buildTimeClassIndex(games)).toEqual({
+      rapid: [0],
+      classical: [1],
+      unknown: [2],
+    });
+  });
+});